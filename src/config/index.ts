@@ -0,0 +1,11 @@
+export {
+  CONFIG_FILENAMES,
+  findConfigFile,
+  validateConfig,
+  loadConfig,
+  describeEffectiveConfig,
+  describeEnvironment,
+  fileListOptions,
+  norminetteRunOptions
+} from "./project-config.js";
+export type { ProjectConfig, LoadedConfig } from "./project-config.js";
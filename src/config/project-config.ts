@@ -0,0 +1,382 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { FixStage } from "../types.js";
+import { ClangFormatOverrides, getClangFormatVersion } from "../fixing/formatting/clang-format.js";
+import { HeaderIdentity, getSystemInfo } from "../fixing/structural/system-info.js";
+import { CLANG_FORMAT_FIXER, fixStages, getAvailableFixers, resolveFixSelection } from "../fixing/selection.js";
+import { DEFAULT_NORMINETTE_TIMEOUT, NorminetteRunOptions } from "../core/norminette.js";
+import { FileListOptions } from "../core/file-utils.js";
+import { DEFAULT_CONCURRENCY } from "../core/concurrency.js";
+import { getCacheDir, getResultCache } from "../core/cache.js";
+import { detectNorminette } from "../core/version.js";
+
+export const CONFIG_FILENAMES = [".norminette-mcp.yml", ".norminette-mcp.yaml"];
+
+/**
+ * Contents of a .norminette-mcp.yml project configuration file
+ */
+export interface ProjectConfig {
+  header?: HeaderIdentity;
+  /** clang-format style options overriding the generated 42 style */
+  clang_format?: ClangFormatOverrides;
+  fixers?: {
+    include?: string[];
+    exclude?: string[];
+    stages?: FixStage[];
+    include_codes?: string[];
+    exclude_codes?: string[];
+  };
+  /** Globs (relative to the config file) of files and directories to skip */
+  ignore?: string[];
+  /** Skip files ignored by .gitignore files (default true) */
+  gitignore?: boolean;
+  /** norminette time limit in milliseconds, per file */
+  timeout?: number;
+  /** Maximum number of norminette processes running at once */
+  concurrency?: number;
+  norminette?: {
+    flags?: string[];
+    /** Rules passed as `-R <rule>`, e.g. CheckForbiddenSourceHeader */
+    rules?: string[];
+    use_gitignore?: boolean;
+    /** Extra flags and rules for the files matching globs (relative to the config file) */
+    overrides?: {
+      files: string | string[];
+      flags?: string[];
+      rules?: string[];
+    }[];
+  };
+  /** Reuse results for unchanged content (default enabled, in memory only) */
+  cache?: {
+    enabled?: boolean;
+    /** Also keep results on disk across server restarts */
+    persist?: boolean;
+  };
+}
+
+export interface LoadedConfig {
+  /** Path of the config file, or null when none was found */
+  path: string | null;
+  /** Directory relative paths in the config are resolved against */
+  root: string;
+  config: ProjectConfig;
+}
+
+/**
+ * Find the nearest config file, searching upward from startPath
+ */
+export function findConfigFile(startPath: string): string | null {
+  const absolute = path.resolve(startPath);
+  let dir = fs.existsSync(absolute) && fs.statSync(absolute).isDirectory() ? absolute : path.dirname(absolute);
+
+  while (true) {
+    for (const name of CONFIG_FILENAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], prefix: string, problems: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      problems.push(`${prefix}${key} is not a known option (expected one of: ${allowed.join(', ')})`);
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate parsed YAML against the config schema.
+ * Throws an Error listing every problem found, prefixed with the config source.
+ */
+export function validateConfig(raw: unknown, source: string): ProjectConfig {
+  if (raw === null || raw === undefined) {
+    return {};
+  }
+  if (!isPlainObject(raw)) {
+    throw new Error(`Invalid configuration in ${source}: expected a mapping at the top level`);
+  }
+
+  const problems: string[] = [];
+  checkKeys(raw, ["header", "clang_format", "fixers", "ignore", "gitignore", "timeout", "concurrency", "norminette", "cache"], "", problems);
+
+  if (raw.header !== undefined) {
+    if (!isPlainObject(raw.header)) {
+      problems.push("header must be a mapping");
+    } else {
+      checkKeys(raw.header, ["login", "email"], "header.", problems);
+      for (const key of ["login", "email"]) {
+        if (raw.header[key] !== undefined && typeof raw.header[key] !== 'string') {
+          problems.push(`header.${key} must be a string`);
+        }
+      }
+    }
+  }
+
+  if (raw.clang_format !== undefined) {
+    if (!isPlainObject(raw.clang_format)) {
+      problems.push("clang_format must be a mapping of clang-format style options");
+    } else {
+      for (const [key, value] of Object.entries(raw.clang_format)) {
+        if (!['string', 'number', 'boolean'].includes(typeof value)) {
+          problems.push(`clang_format.${key} must be a string, number or boolean`);
+        }
+      }
+    }
+  }
+
+  if (raw.fixers !== undefined) {
+    if (!isPlainObject(raw.fixers)) {
+      problems.push("fixers must be a mapping");
+    } else {
+      checkKeys(raw.fixers, ["include", "exclude", "stages", "include_codes", "exclude_codes"], "fixers.", problems);
+      const available = getAvailableFixers();
+      for (const key of ["include", "exclude", "stages", "include_codes", "exclude_codes"]) {
+        const value = raw.fixers[key];
+        if (value === undefined) {
+          continue;
+        }
+        if (!isStringArray(value)) {
+          problems.push(`fixers.${key} must be a list of strings`);
+        } else if (key === "include" || key === "exclude") {
+          for (const name of value.filter(name => !available.includes(name))) {
+            problems.push(`fixers.${key}: unknown fixer ${name} (available: ${available.join(', ')})`);
+          }
+        } else if (key === "stages") {
+          for (const stage of value.filter(stage => !fixStages.includes(stage as FixStage))) {
+            problems.push(`fixers.stages: unknown stage ${stage} (available: ${fixStages.join(', ')})`);
+          }
+        }
+      }
+    }
+  }
+
+  if (raw.ignore !== undefined && !isStringArray(raw.ignore)) {
+    problems.push("ignore must be a list of glob patterns");
+  }
+
+  if (raw.gitignore !== undefined && typeof raw.gitignore !== 'boolean') {
+    problems.push("gitignore must be true or false");
+  }
+
+  if (raw.timeout !== undefined && (typeof raw.timeout !== 'number' || raw.timeout <= 0)) {
+    problems.push("timeout must be a positive number of milliseconds");
+  }
+
+  if (raw.concurrency !== undefined && (!Number.isInteger(raw.concurrency) || (raw.concurrency as number) < 1)) {
+    problems.push("concurrency must be a positive integer");
+  }
+
+  if (raw.norminette !== undefined) {
+    if (!isPlainObject(raw.norminette)) {
+      problems.push("norminette must be a mapping");
+    } else {
+      checkKeys(raw.norminette, ["flags", "rules", "use_gitignore", "overrides"], "norminette.", problems);
+      for (const key of ["flags", "rules"]) {
+        if (raw.norminette[key] !== undefined && !isStringArray(raw.norminette[key])) {
+          problems.push(`norminette.${key} must be a list of strings`);
+        }
+      }
+      if (raw.norminette.use_gitignore !== undefined && typeof raw.norminette.use_gitignore !== 'boolean') {
+        problems.push("norminette.use_gitignore must be true or false");
+      }
+      if (raw.norminette.overrides !== undefined) {
+        if (!Array.isArray(raw.norminette.overrides)) {
+          problems.push("norminette.overrides must be a list of mappings");
+        } else {
+          raw.norminette.overrides.forEach((override: unknown, index: number) => {
+            const prefix = `norminette.overrides[${index}]`;
+            if (!isPlainObject(override)) {
+              problems.push(`${prefix} must be a mapping`);
+              return;
+            }
+            checkKeys(override, ["files", "flags", "rules"], `${prefix}.`, problems);
+            if (typeof override.files !== 'string' && !isStringArray(override.files)) {
+              problems.push(`${prefix}.files must be a glob or a list of globs`);
+            }
+            for (const key of ["flags", "rules"]) {
+              if (override[key] !== undefined && !isStringArray(override[key])) {
+                problems.push(`${prefix}.${key} must be a list of strings`);
+              }
+            }
+          });
+        }
+      }
+    }
+  }
+
+  if (raw.cache !== undefined) {
+    if (!isPlainObject(raw.cache)) {
+      problems.push("cache must be a mapping");
+    } else {
+      checkKeys(raw.cache, ["enabled", "persist"], "cache.", problems);
+      for (const key of ["enabled", "persist"]) {
+        if (raw.cache[key] !== undefined && typeof raw.cache[key] !== 'boolean') {
+          problems.push(`cache.${key} must be true or false`);
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration in ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  return raw as ProjectConfig;
+}
+
+/**
+ * Load and validate the config file that applies to targetPath.
+ * Returns an empty config rooted at the target when there is none.
+ */
+export function loadConfig(targetPath: string): LoadedConfig {
+  const configPath = findConfigFile(targetPath);
+  if (!configPath) {
+    const absolute = path.resolve(targetPath);
+    const root = fs.existsSync(absolute) && fs.statSync(absolute).isDirectory() ? absolute : path.dirname(absolute);
+    return { path: null, root, config: {} };
+  }
+
+  let raw: unknown;
+  try {
+    raw = yaml.load(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid configuration in ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    path: configPath,
+    root: path.dirname(configPath),
+    config: validateConfig(raw, configPath)
+  };
+}
+
+/**
+ * How directories under this config are traversed
+ */
+export function fileListOptions(loaded: LoadedConfig): FileListOptions {
+  return {
+    ignore: loaded.config.ignore,
+    root: loaded.root,
+    gitignore: loaded.config.gitignore
+  };
+}
+
+/**
+ * How norminette is invoked under this config
+ */
+export function norminetteRunOptions(loaded: LoadedConfig): NorminetteRunOptions {
+  return {
+    timeout: loaded.config.timeout,
+    flags: loaded.config.norminette?.flags,
+    rules: loaded.config.norminette?.rules,
+    useGitignore: loaded.config.norminette?.use_gitignore,
+    overrides: (loaded.config.norminette?.overrides ?? []).map(override => ({
+      files: typeof override.files === 'string' ? [override.files] : override.files,
+      root: loaded.root,
+      flags: override.flags,
+      rules: override.rules
+    })),
+    concurrency: loaded.config.concurrency,
+    cache: loaded.config.cache?.enabled === false ? null : getResultCache(loaded.config.cache?.persist === true)
+  };
+}
+
+/**
+ * The settings a run under this config will actually use, with defaults filled in
+ */
+export async function describeEffectiveConfig(loaded: LoadedConfig) {
+  const { config } = loaded;
+  const systemInfo = await getSystemInfo(config.header);
+
+  return {
+    config_file: loaded.path,
+    root: loaded.root,
+    header: {
+      login: systemInfo.username,
+      email: systemInfo.email
+    },
+    clang_format_overrides: config.clang_format ?? {},
+    fixers: {
+      include: config.fixers?.include ?? getAvailableFixers(),
+      exclude: config.fixers?.exclude ?? [],
+      stages: config.fixers?.stages ?? fixStages,
+      include_codes: config.fixers?.include_codes ?? null,
+      exclude_codes: config.fixers?.exclude_codes ?? []
+    },
+    ignore: config.ignore ?? [],
+    gitignore: config.gitignore ?? true,
+    timeout: config.timeout ?? DEFAULT_NORMINETTE_TIMEOUT,
+    concurrency: config.concurrency ?? DEFAULT_CONCURRENCY,
+    norminette_flags: config.norminette?.flags ?? [],
+    norminette_rules: config.norminette?.rules ?? [],
+    norminette_use_gitignore: config.norminette?.use_gitignore ?? false,
+    norminette_overrides: config.norminette?.overrides ?? [],
+    cache: {
+      enabled: config.cache?.enabled ?? true,
+      persist: config.cache?.persist ?? false,
+      directory: config.cache?.persist ? getCacheDir() : null
+    }
+  };
+}
+
+/**
+ * The external tools found on this machine and the fixers a fix run under this config will
+ * use, to explain why results differ between machines
+ */
+export async function describeEnvironment(loaded: LoadedConfig) {
+  const { config } = loaded;
+  const norminette = await detectNorminette();
+  const clangFormatVersion = await getClangFormatVersion();
+
+  const selection = resolveFixSelection({
+    includeFixers: config.fixers?.include,
+    excludeFixers: config.fixers?.exclude,
+    stages: config.fixers?.stages
+  });
+  const selected = [
+    ...selection.structuralFixers.map(fixer => fixer.name),
+    ...(selection.runClangFormat ? [CLANG_FORMAT_FIXER] : []),
+    ...selection.formattingRules.map(rule => rule.name)
+  ];
+  const inactive = getAvailableFixers()
+    .filter(name => !selected.includes(name))
+    .map(name => ({ name, reason: "disabled by configuration" }));
+  if (selection.runClangFormat && !clangFormatVersion) {
+    inactive.push({ name: CLANG_FORMAT_FIXER, reason: "clang-format is not installed" });
+  }
+
+  return {
+    norminette: {
+      installed: norminette.installed,
+      version: norminette.version,
+      supported_options: norminette.options,
+      ...(norminette.error ? { error: norminette.error } : {})
+    },
+    clang_format: {
+      available: clangFormatVersion !== null,
+      version: clangFormatVersion
+    },
+    config_file: loaded.path,
+    fixers: {
+      active: selected.filter(name => name !== CLANG_FORMAT_FIXER || clangFormatVersion !== null),
+      inactive
+    }
+  };
+}
@@ -0,0 +1,138 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Baseline, BaselineEntry, BaselineSummary, NorminetteError } from "../types.js";
+
+/** Baseline file name used when none is given */
+export const DEFAULT_BASELINE_FILENAME = ".norminette-baseline.json";
+
+/**
+ * Fingerprint of an offending line: its text with surrounding whitespace removed and inner
+ * runs collapsed, so re-indenting a line or editing other lines keeps the fingerprint
+ */
+export function fingerprintLine(text: string): string {
+  return crypto.createHash('sha256').update(text.trim().replace(/\s+/g, ' ')).digest('hex').slice(0, 16);
+}
+
+/** Errors about the file as a whole, whose line says nothing about them */
+const FILE_LEVEL_CODES = ["INVALID_HEADER"];
+
+/**
+ * Reads the lines of the files errors point to, once per file
+ */
+function createLineReader(): (filePath: string, line: number) => string {
+  const files = new Map<string, string[]>();
+  return (filePath, line) => {
+    const absolute = path.resolve(filePath);
+    if (!files.has(absolute)) {
+      let lines: string[] = [];
+      try {
+        lines = fs.readFileSync(absolute, 'utf-8').split('\n');
+      } catch {
+        // A file that cannot be read fingerprints every line as empty
+      }
+      files.set(absolute, lines);
+    }
+    return files.get(absolute)![line - 1] ?? '';
+  };
+}
+
+function errorFingerprint(error: NorminetteError, readLine: (filePath: string, line: number) => string): string {
+  return fingerprintLine(FILE_LEVEL_CODES.includes(error.error_code) ? '' : readLine(error.file, error.line));
+}
+
+function entryFile(baselinePath: string, filePath: string): string {
+  return path.relative(path.dirname(path.resolve(baselinePath)), path.resolve(filePath)).split(path.sep).join('/');
+}
+
+function entryKey(entry: Pick<BaselineEntry, 'file' | 'error_code' | 'fingerprint'>): string {
+  return `${entry.file}\0${entry.error_code}\0${entry.fingerprint}`;
+}
+
+/**
+ * Baseline accepting every given error, with files relative to where the baseline is stored
+ */
+export function createBaseline(errors: NorminetteError[], baselinePath: string, norminetteVersion: string | null): Baseline {
+  const readLine = createLineReader();
+  return {
+    version: 1,
+    created_at: new Date().toISOString(),
+    norminette_version: norminetteVersion,
+    entries: errors.map(error => ({
+      file: entryFile(baselinePath, error.file),
+      error_code: error.error_code,
+      fingerprint: errorFingerprint(error, readLine),
+      line: error.line,
+      description: error.description
+    }))
+  };
+}
+
+export function writeBaseline(baselinePath: string, baseline: Baseline): void {
+  fs.mkdirSync(path.dirname(path.resolve(baselinePath)), { recursive: true });
+  fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + '\n');
+}
+
+export function loadBaseline(baselinePath: string): Baseline {
+  if (!fs.existsSync(baselinePath)) {
+    throw new Error(`Baseline file does not exist: ${baselinePath}`);
+  }
+  let baseline: Baseline;
+  try {
+    baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid baseline file ${baselinePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (baseline?.version !== 1 || !Array.isArray(baseline.entries)) {
+    throw new Error(`Invalid baseline file ${baselinePath}: expected version 1 with a list of entries`);
+  }
+  return baseline;
+}
+
+/**
+ * Split errors into those the baseline accepts and new ones. Identical entries are matched
+ * one for one, so a second copy of an accepted error is new. Entries for checkedFiles that
+ * matched nothing are stale; entries for other files are ignored.
+ */
+export function matchBaseline(
+  errors: NorminetteError[],
+  baseline: Baseline,
+  baselinePath: string,
+  checkedFiles: string[]
+): { errors: NorminetteError[]; summary: BaselineSummary } {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.entries) {
+    const key = entryKey(entry);
+    remaining.set(key, [...(remaining.get(key) ?? []), entry]);
+  }
+
+  const readLine = createLineReader();
+  const newErrors: NorminetteError[] = [];
+  let matched = 0;
+  for (const error of errors) {
+    const candidates = remaining.get(entryKey({
+      file: entryFile(baselinePath, error.file),
+      error_code: error.error_code,
+      fingerprint: errorFingerprint(error, readLine)
+    }));
+    if (candidates && candidates.length > 0) {
+      candidates.shift();
+      matched++;
+    } else {
+      newErrors.push(error);
+    }
+  }
+
+  const checked = new Set(checkedFiles.map(file => entryFile(baselinePath, file)));
+  const stale = [...remaining.values()].flat().filter(entry => checked.has(entry.file));
+  const summary: BaselineSummary = {
+    file: baselinePath,
+    matched,
+    new: newErrors.length,
+    stale: stale.length
+  };
+  if (stale.length > 0) {
+    summary.stale_entries = stale;
+  }
+  return { errors: newErrors, summary };
+}
@@ -0,0 +1,146 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as crypto from "crypto";
+import { NorminetteError, NorminetteFailure } from "../types.js";
+
+/** Entries kept before the least recently used ones are evicted */
+export const DEFAULT_CACHE_MAX_ENTRIES = 5000;
+
+/**
+ * What a key is derived from. For headers the basename is part of the key, since norminette
+ * checks the header guard name against it.
+ */
+export interface CacheKeyParts {
+  content: string;
+  filePath: string;
+  version: string;
+  flags: string[];
+}
+
+/**
+ * A single-file check result with file names stripped, so it can be reused for any file
+ * with the same content and kind
+ */
+export interface CachedCheck {
+  errors: Omit<NorminetteError, 'file'>[];
+  notices: Omit<NorminetteError, 'file'>[];
+  failures: Omit<NorminetteFailure, 'file'>[];
+}
+
+export interface ResultCacheOptions {
+  /** JSON file the cache is loaded from and flushed to; in-memory only when omitted */
+  persistPath?: string;
+  maxEntries?: number;
+}
+
+/**
+ * Directory of the persistent cache: $NORMINETTE_MCP_CACHE_DIR or ~/.norminette-mcp/cache
+ */
+export function getCacheDir(): string {
+  return process.env.NORMINETTE_MCP_CACHE_DIR || path.join(os.homedir(), '.norminette-mcp', 'cache');
+}
+
+export function createCacheKey(parts: CacheKeyParts): string {
+  const kind = path.extname(parts.filePath);
+  const name = kind === '.h' ? path.basename(parts.filePath) : '';
+  return crypto.createHash('sha256')
+    .update(JSON.stringify([parts.version, parts.flags, kind, name]))
+    .update('\0')
+    .update(parts.content)
+    .digest('hex');
+}
+
+/**
+ * Norminette results keyed by createCacheKey, evicting the least recently used entries.
+ * A persistent cache is read lazily on first use and written by flush().
+ */
+export class ResultCache {
+  private entries = new Map<string, CachedCheck>();
+  private loaded = false;
+  private dirty = false;
+  private readonly maxEntries: number;
+
+  constructor(private readonly options: ResultCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  }
+
+  get size(): number {
+    this.load();
+    return this.entries.size;
+  }
+
+  get(key: string): CachedCheck | undefined {
+    this.load();
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CachedCheck): void {
+    this.load();
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.dirty = true;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.loaded = true;
+    this.dirty = true;
+  }
+
+  /**
+   * Write a persistent cache to disk if it changed; a no-op for in-memory caches
+   */
+  flush(): void {
+    if (!this.options.persistPath || !this.dirty) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.options.persistPath), { recursive: true });
+    const tempPath = `${this.options.persistPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.entries)));
+    fs.renameSync(tempPath, this.options.persistPath);
+    this.dirty = false;
+  }
+
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+    if (!this.options.persistPath || !fs.existsSync(this.options.persistPath)) {
+      return;
+    }
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.options.persistPath, 'utf-8')) as Record<string, CachedCheck>;
+      for (const [key, entry] of Object.entries(stored)) {
+        this.entries.set(key, entry);
+      }
+    } catch {
+      // A corrupt cache file is simply rebuilt
+    }
+  }
+}
+
+let memoryCache: ResultCache | null = null;
+let persistentCache: ResultCache | null = null;
+
+/**
+ * The process-wide cache, optionally backed by results.json in getCacheDir()
+ */
+export function getResultCache(persistent: boolean = false): ResultCache {
+  if (persistent) {
+    persistentCache ??= new ResultCache({ persistPath: path.join(getCacheDir(), 'results.json') });
+    return persistentCache;
+  }
+  memoryCache ??= new ResultCache();
+  return memoryCache;
+}
@@ -0,0 +1,62 @@
+import * as os from "os";
+
+/** Parallel norminette processes when no concurrency is configured */
+export const DEFAULT_CONCURRENCY = Math.max(1, Math.min(os.cpus().length, 8));
+
+/**
+ * How far a multi-file operation got, reported after each file
+ */
+export interface Progress {
+  /** Steps finished so far: one per file checked or fixed, across every phase of the operation */
+  progress: number;
+  total: number;
+  /** e.g. "Fixed src/main.c (3/10), 12 errors fixed so far" */
+  message: string;
+}
+
+export type ProgressSink = (progress: Progress) => void;
+
+/**
+ * Throw if the operation was cancelled (e.g. the MCP client cancelled the request)
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error("Operation cancelled");
+  }
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight.
+ * Results keep the order of the items. No new call starts once the signal is aborted;
+ * the first failure is rethrown after the calls already running have settled.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const worker = async () => {
+    while (next < items.length && !failure) {
+      const index = next++;
+      try {
+        throwIfCancelled(signal);
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure = failure ?? { error };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
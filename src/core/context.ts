@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as path from "path";
+import { NorminetteError, NorminetteResult } from "../types.js";
+
+/** norminette reports columns with tabs expanded to this width */
+export const NORMINETTE_TAB_WIDTH = 4;
+
+/** Largest context_lines accepted */
+export const MAX_CONTEXT_LINES = 20;
+
+/**
+ * Expand tabs to the next multiple of tabWidth columns, the way norminette counts columns.
+ * Each tab is drawn as '→' followed by spaces, so tabs stay distinguishable from spaces.
+ */
+export function expandTabs(line: string, tabWidth: number = NORMINETTE_TAB_WIDTH): string {
+  let expanded = '';
+  for (const char of line) {
+    if (char === '\t') {
+      const width = tabWidth - (expanded.length % tabWidth);
+      expanded += '→' + ' '.repeat(width - 1);
+    } else {
+      expanded += char;
+    }
+  }
+  return expanded;
+}
+
+/**
+ * The lines around `line` (1-based) with a caret under `column` (1-based, tab-expanded).
+ * Returns null when the line is not in the source.
+ */
+export function renderSnippet(source: string, line: number, column: number, contextLines: number): string | null {
+  const lines = source.split('\n');
+  if (source.endsWith('\n')) {
+    lines.pop();
+  }
+  if (line < 1 || line > lines.length) {
+    return null;
+  }
+
+  const first = Math.max(1, line - contextLines);
+  const last = Math.min(lines.length, line + contextLines);
+  const gutterWidth = String(last).length;
+  const rendered: string[] = [];
+
+  for (let current = first; current <= last; current++) {
+    rendered.push(`${String(current).padStart(gutterWidth)} | ${expandTabs(lines[current - 1].replace(/\r$/, ''))}`);
+    if (current === line) {
+      rendered.push(`${' '.repeat(gutterWidth)} | ${' '.repeat(Math.max(0, column - 1))}^`);
+    }
+  }
+  return rendered.join('\n');
+}
+
+function readFromDisk(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Attach a `snippet` with contextLines lines of context on each side to every error and notice.
+ * readSource supplies the text of a file, e.g. an editor buffer; files it cannot read get no snippet.
+ */
+export function addSourceContext(
+  result: NorminetteResult,
+  contextLines: number,
+  readSource: (filePath: string) => string | null = readFromDisk
+): NorminetteResult {
+  if (!Number.isInteger(contextLines) || contextLines < 0 || contextLines > MAX_CONTEXT_LINES) {
+    throw new Error(`context_lines must be an integer between 0 and ${MAX_CONTEXT_LINES}`);
+  }
+
+  const sources = new Map<string, string | null>();
+  const attach = (entry: NorminetteError) => {
+    const key = path.resolve(entry.file);
+    if (!sources.has(key)) {
+      sources.set(key, readSource(entry.file));
+    }
+    const source = sources.get(key);
+    const snippet = source === null || source === undefined ? null : renderSnippet(source, entry.line, entry.column, contextLines);
+    if (snippet !== null) {
+      entry.snippet = snippet;
+    }
+  };
+
+  result.errors.forEach(attach);
+  result.notices?.forEach(attach);
+  return result;
+}
@@ -0,0 +1,121 @@
+import * as path from "path";
+import { FileDiagnostics, NorminetteResult, ResultSummary } from "../types.js";
+import { summarizeResult } from "./summary.js";
+
+/** Called with the absolute paths of the files whose diagnostics changed */
+export type DiagnosticsListener = (files: string[]) => void;
+
+function outcome(entry: FileDiagnostics): string {
+  return JSON.stringify([entry.status, entry.errors, entry.notices, entry.failures]);
+}
+
+/**
+ * The latest check result of every file checked so far, keyed by absolute path. Listeners are
+ * told which files changed; re-checking a file with the same outcome notifies nobody.
+ */
+export class DiagnosticsStore {
+  private files = new Map<string, FileDiagnostics>();
+  private listeners = new Set<DiagnosticsListener>();
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  get(file: string): FileDiagnostics | undefined {
+    return this.files.get(path.resolve(file));
+  }
+
+  /**
+   * Every stored file, in path order
+   */
+  list(): FileDiagnostics[] {
+    return [...this.files.values()].sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : 0));
+  }
+
+  /**
+   * Remember the result of checking one file. A timed out check says nothing about the file
+   * and is ignored. Returns whether the file's diagnostics changed.
+   */
+  record(file: string, result: NorminetteResult): boolean {
+    if (result.timed_out && result.timed_out.length > 0) {
+      return false;
+    }
+    const key = path.resolve(file);
+    // Copies, so snippets attached to the caller's result later do not end up here
+    const entry: FileDiagnostics = {
+      file: key,
+      status: result.status,
+      errors: result.errors.map(error => ({ ...error })),
+      notices: (result.notices ?? []).map(notice => ({ ...notice })),
+      failures: (result.failures ?? []).map(failure => ({ ...failure })),
+      checked_at: new Date().toISOString()
+    };
+    const previous = this.files.get(key);
+    this.files.set(key, entry);
+
+    if (previous && outcome(previous) === outcome(entry)) {
+      return false;
+    }
+    this.notify([key]);
+    return true;
+  }
+
+  /**
+   * Forget a file, e.g. after it was deleted
+   */
+  delete(file: string): boolean {
+    const key = path.resolve(file);
+    if (!this.files.delete(key)) {
+      return false;
+    }
+    this.notify([key]);
+    return true;
+  }
+
+  clear(): void {
+    const files = [...this.files.keys()];
+    this.files.clear();
+    if (files.length > 0) {
+      this.notify(files);
+    }
+  }
+
+  /**
+   * Counts over the stored files (those matching filter), as for a check of all of them
+   */
+  summarize(filter: (entry: FileDiagnostics) => boolean = () => true): ResultSummary {
+    const entries = [...this.files.values()].filter(filter);
+    return summarizeResult({
+      files_checked: entries.length,
+      errors: entries.flatMap(entry => entry.errors),
+      notices: entries.flatMap(entry => entry.notices),
+      failures: entries.flatMap(entry => entry.failures)
+    });
+  }
+
+  /**
+   * Call listener whenever diagnostics change; returns a function removing it again
+   */
+  subscribe(listener: DiagnosticsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(files: string[]): void {
+    for (const listener of this.listeners) {
+      listener(files);
+    }
+  }
+}
+
+let defaultStore: DiagnosticsStore | null = null;
+
+/**
+ * The process-wide store the MCP server records checks in and serves resources from
+ */
+export function getDiagnosticsStore(): DiagnosticsStore {
+  defaultStore ??= new DiagnosticsStore();
+  return defaultStore;
+}
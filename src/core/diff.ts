@@ -0,0 +1,336 @@
+import { LineRange } from "../types.js";
+
+/**
+ * A single line-level edit produced by diffLines.
+ * oldIndex/newIndex are 0-based positions in the old/new line arrays
+ * at which this operation applies.
+ */
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  line: string;
+  oldIndex: number;
+  newIndex: number;
+}
+
+/**
+ * Split text into lines, keeping the trailing newline on each line
+ * so that a missing newline at EOF shows up as a change
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+
+  const lines = text.split('\n').map((line, i, all) => (i < all.length - 1 ? line + '\n' : line));
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Myers' O(ND) shortest edit script between a[aStart..aEnd) and b[bStart..bEnd)
+ */
+function myersDiff(a: string[], b: string[], aStart: number, aEnd: number, bStart: number, bEnd: number): DiffOp[] {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the part of v that step d reads: k in [-d-1, d+1]
+  const trace: Int32Array[] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: 'equal', line: a[aStart + x], oldIndex: aStart + x, newIndex: bStart + y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[bStart + prevY], oldIndex: aStart + prevX, newIndex: bStart + prevY });
+      } else {
+        ops.push({ type: 'delete', line: a[aStart + prevX], oldIndex: aStart + prevX, newIndex: bStart + prevY });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Compute a line-level edit script turning oldText into newText
+ */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Trim the common prefix and suffix so the expensive part only sees the changed region
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < start; i++) {
+    ops.push({ type: 'equal', line: a[i], oldIndex: i, newIndex: i });
+  }
+  ops.push(...myersDiff(a, b, start, endA, start, endB));
+  for (let i = 0; endA + i < a.length; i++) {
+    ops.push({ type: 'equal', line: a[endA + i], oldIndex: endA + i, newIndex: endB + i });
+  }
+
+  return ops;
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+function formatLine(prefix: string, line: string): string[] {
+  if (line.endsWith('\n')) {
+    return [prefix + line.slice(0, -1)];
+  }
+  return [prefix + line, '\\ No newline at end of file'];
+}
+
+/**
+ * Render a unified diff (as produced by `diff -u`) between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string = oldLabel,
+  contextLines: number = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const ops = diffLines(oldText, newText);
+  const output: string[] = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  let i = 0;
+  while (i < ops.length) {
+    // Find the next change
+    while (i < ops.length && ops[i].type === 'equal') {
+      i++;
+    }
+    if (i >= ops.length) {
+      break;
+    }
+
+    // Extend the hunk while changes are separated by at most 2 * contextLines equal lines
+    const hunkStart = Math.max(0, i - contextLines);
+    let hunkEnd = i;
+    while (hunkEnd < ops.length) {
+      let next = hunkEnd;
+      while (next < ops.length && ops[next].type !== 'equal') {
+        next++;
+      }
+      let gap = next;
+      while (gap < ops.length && ops[gap].type === 'equal') {
+        gap++;
+      }
+      if (gap < ops.length && gap - next <= contextLines * 2) {
+        hunkEnd = gap;
+      } else {
+        hunkEnd = Math.min(ops.length, next + contextLines);
+        break;
+      }
+    }
+
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter(op => op.type !== 'insert').length;
+    const newCount = hunk.filter(op => op.type !== 'delete').length;
+    const oldStart = oldCount > 0 ? hunk[0].oldIndex + 1 : hunk[0].oldIndex;
+    const newStart = newCount > 0 ? hunk[0].newIndex + 1 : hunk[0].newIndex;
+
+    output.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'insert' ? '+' : '-';
+      output.push(...formatLine(prefix, op.line));
+    }
+
+    i = hunkEnd;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Build a function mapping 1-based line numbers in oldText to their position in newText.
+ * Inside a changed block, deleted lines are paired positionally with inserted ones
+ * (so a line whose whitespace was rewritten keeps its identity); unpaired deleted
+ * lines map to null. Lines past the end of oldText (where norminette reports
+ * end-of-file errors) map past the end of newText.
+ */
+export function createLineMap(oldText: string, newText: string): (line: number) => number | null {
+  const ops = diffLines(oldText, newText);
+  const map = new Map<number, number>();
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'equal') {
+      map.set(ops[i].oldIndex + 1, ops[i].newIndex + 1);
+      i++;
+      continue;
+    }
+
+    const deleted: DiffOp[] = [];
+    const inserted: DiffOp[] = [];
+    while (i < ops.length && ops[i].type !== 'equal') {
+      (ops[i].type === 'delete' ? deleted : inserted).push(ops[i]);
+      i++;
+    }
+    for (let j = 0; j < deleted.length && j < inserted.length; j++) {
+      map.set(deleted[j].oldIndex + 1, inserted[j].newIndex + 1);
+    }
+  }
+
+  const oldLength = ops.filter(op => op.type !== 'insert').length;
+  const newLength = ops.filter(op => op.type !== 'delete').length;
+
+  return (line: number) => {
+    if (line > oldLength) {
+      return newLength + (line - oldLength);
+    }
+    return map.get(line) ?? null;
+  };
+}
+
+/**
+ * The 1-based range of lines in newText that differ from oldText, or null if nothing changed.
+ * Pure deletions are reported at the line following the removed block.
+ */
+export function changedLineRange(oldText: string, newText: string): LineRange | null {
+  let start = Infinity;
+  let end = -Infinity;
+
+  for (const op of diffLines(oldText, newText)) {
+    if (op.type === 'equal') {
+      continue;
+    }
+    const line = op.newIndex + 1;
+    start = Math.min(start, line);
+    end = Math.max(end, line);
+  }
+
+  return start === Infinity ? null : { start, end };
+}
+
+/**
+ * Apply only the changed blocks of oldText -> newText that touch the given 1-based
+ * lines of oldText; every other block is reverted. Blocks that rewrite lines one for
+ * one are decided line by line. Pure insertions are kept when the line before or
+ * after the insertion point is allowed.
+ */
+export function restrictChanges(oldText: string, newText: string, allowedLines: Set<number>): string {
+  const ops = diffLines(oldText, newText);
+  const output: string[] = [];
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'equal') {
+      output.push(ops[i].line);
+      i++;
+      continue;
+    }
+
+    const block: DiffOp[] = [];
+    while (i < ops.length && ops[i].type !== 'equal') {
+      block.push(ops[i]);
+      i++;
+    }
+
+    const deleted = block.filter(op => op.type === 'delete');
+    const inserted = block.filter(op => op.type === 'insert');
+
+    // Line-for-line rewrites (e.g. whitespace changes) are decided per line
+    if (deleted.length === inserted.length) {
+      deleted.forEach((op, j) => {
+        output.push(allowedLines.has(op.oldIndex + 1) ? inserted[j].line : op.line);
+      });
+      continue;
+    }
+
+    const keep = deleted.length > 0
+      ? deleted.some(op => allowedLines.has(op.oldIndex + 1))
+      : allowedLines.has(block[0].oldIndex) || allowedLines.has(block[0].oldIndex + 1);
+
+    for (const op of block) {
+      if (op.type === (keep ? 'insert' : 'delete')) {
+        output.push(op.line);
+      }
+    }
+  }
+
+  return output.join('');
+}
+
+/**
+ * Carry a set of 1-based lines of oldText over to newText. Lines inserted by the
+ * change are added to the set, since they only exist because of an allowed edit.
+ */
+export function remapLineSet(lines: Set<number>, oldText: string, newText: string): Set<number> {
+  if (oldText === newText) {
+    return lines;
+  }
+
+  const lineMap = createLineMap(oldText, newText);
+  const mapped = new Set<number>();
+  for (const line of lines) {
+    const next = lineMap(line);
+    if (next !== null) {
+      mapped.add(next);
+    }
+  }
+
+  const ops = diffLines(oldText, newText);
+  for (const op of ops) {
+    if (op.type === 'insert') {
+      mapped.add(op.newIndex + 1);
+    }
+  }
+
+  return mapped;
+}
@@ -1,18 +1,217 @@
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import { SkippedFile } from "../types.js";
+import { ChangedLines, getChangedLines, getFileChanges } from "./git.js";
+import { AllowedRoots, isPathAllowed } from "./sandbox.js";
+import { IgnoreRule, findIgnoringRule, matchesGlob, parseIgnoreFile } from "./glob.js";
 
-export function getAllCFiles(dir: string): string[] {
-  const files: string[] = [];
-  const items = fs.readdirSync(dir);
-  
-  for (const item of items) {
-    const fullPath = path.join(dir, item);
-    if (fs.statSync(fullPath).isDirectory()) {
-      files.push(...getAllCFiles(fullPath));
-    } else if (item.endsWith('.c') || item.endsWith('.h')) {
-      files.push(fullPath);
+/** Directories skipped by every traversal */
+export const DEFAULT_EXCLUDES = [".git/", "node_modules/"];
+
+/** Per-directory ignore file using .gitignore syntax, for files git should track but norminette should not check */
+export const NORMIGNORE_FILENAME = ".normignore";
+
+export interface FileListOptions {
+  /** Globs of files and directories to skip */
+  ignore?: string[];
+  /** Directory the ignore globs are relative to (defaults to the directory being listed) */
+  root?: string;
+  /** Honor .gitignore files (default true) */
+  gitignore?: boolean;
+  /** Honor .normignore files (default true) */
+  normignore?: boolean;
+  /** Skip paths that resolve (e.g. through a symlink) outside these roots */
+  allowedRoots?: AllowedRoots;
+}
+
+export interface FileCollection {
+  files: string[];
+  skipped: SkippedFile[];
+}
+
+export function isCSourceFile(filePath: string): boolean {
+  return filePath.endsWith('.c') || filePath.endsWith('.h');
+}
+
+function ignoreFileNames(options: FileListOptions): string[] {
+  const names: string[] = [];
+  if (options.gitignore !== false) {
+    names.push('.gitignore');
+  }
+  if (options.normignore !== false) {
+    names.push(NORMIGNORE_FILENAME);
+  }
+  return names;
+}
+
+function readIgnoreRules(dir: string, names: string[], root: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const name of names) {
+    const file = path.join(dir, name);
+    if (fs.existsSync(file)) {
+      const source = path.relative(root, file) || name;
+      rules.push(...parseIgnoreFile(fs.readFileSync(file, 'utf-8'), dir, source));
+    }
+  }
+  return rules;
+}
+
+/**
+ * Ignore files of the directories above `dir`, up to the enclosing git repository root.
+ * Outside a repository only the listed directory's own files apply.
+ */
+function inheritedIgnoreRules(dir: string, names: string[]): IgnoreRule[] {
+  const ancestors: string[] = [];
+  let current = path.dirname(dir);
+  let repoRoot: string | null = fs.existsSync(path.join(dir, '.git')) ? dir : null;
+
+  while (!repoRoot && current !== path.dirname(current)) {
+    ancestors.unshift(current);
+    if (fs.existsSync(path.join(current, '.git'))) {
+      repoRoot = current;
+    }
+    current = path.dirname(current);
+  }
+
+  if (!repoRoot) {
+    return [];
+  }
+  return ancestors.flatMap(ancestor => readIgnoreRules(ancestor, names, repoRoot!));
+}
+
+/**
+ * Collect the C files of a file or directory. Directories are traversed skipping
+ * DEFAULT_EXCLUDES, the `ignore` globs, paths ignored by .gitignore / .normignore files,
+ * symlink cycles and files already reached through another symlink; every skipped
+ * path is reported with the reason. An explicitly named file is never skipped.
+ */
+export function collectCFiles(targetPath: string, options: FileListOptions = {}): FileCollection {
+  const collection: FileCollection = { files: [], skipped: [] };
+  const absoluteTarget = path.resolve(targetPath);
+
+  if (!fs.statSync(absoluteTarget).isDirectory()) {
+    if (isCSourceFile(targetPath)) {
+      collection.files.push(targetPath);
     }
+    return collection;
   }
-  
-  return files;
-}
\ No newline at end of file
+
+  const root = path.resolve(options.root ?? targetPath);
+  const ignore = options.ignore ?? [];
+  const names = ignoreFileNames(options);
+  const visitedDirectories = new Set<string>();
+  const visitedFiles = new Map<string, string>();
+
+  const skip = (skippedPath: string, reason: string) => {
+    collection.skipped.push({ path: skippedPath, reason });
+  };
+
+  const walk = (dir: string, absoluteDir: string, ancestors: string[], rules: IgnoreRule[]) => {
+    let items: string[];
+    try {
+      items = fs.readdirSync(absoluteDir).sort();
+    } catch (error) {
+      skip(dir, `unreadable: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const localRules = [...rules, ...readIgnoreRules(absoluteDir, names, root)];
+
+    for (const item of items) {
+      const itemPath = path.join(dir, item);
+      const absolutePath = path.join(absoluteDir, item);
+
+      let stat: fs.Stats;
+      let realPath: string;
+      try {
+        stat = fs.statSync(absolutePath);
+        realPath = fs.realpathSync(absolutePath);
+      } catch {
+        skip(itemPath, 'broken symlink');
+        continue;
+      }
+      const isDirectory = stat.isDirectory();
+      if (!isDirectory && !isCSourceFile(item)) {
+        continue;
+      }
+      if (!isPathAllowed(realPath, options.allowedRoots ?? null)) {
+        skip(itemPath, `resolves to ${realPath}, outside the allowed roots`);
+        continue;
+      }
+
+      const relativePath = path.relative(root, absolutePath);
+      const defaultExclude = DEFAULT_EXCLUDES.find(pattern => matchesGlob(item, pattern, isDirectory));
+      if (defaultExclude) {
+        skip(itemPath, `excluded by default (${defaultExclude})`);
+        continue;
+      }
+      const ignoreGlob = ignore.find(pattern => matchesGlob(relativePath, pattern, isDirectory));
+      if (ignoreGlob) {
+        skip(itemPath, `matches ignore glob ${ignoreGlob}`);
+        continue;
+      }
+      const ignoringRule = findIgnoringRule(localRules, absolutePath, isDirectory);
+      if (ignoringRule) {
+        skip(itemPath, `ignored by ${ignoringRule.source} (${ignoringRule.pattern})`);
+        continue;
+      }
+
+      if (isDirectory) {
+        if (ancestors.includes(realPath)) {
+          skip(itemPath, `symlink cycle back to ${realPath}`);
+        } else if (visitedDirectories.has(realPath)) {
+          skip(itemPath, `same directory as ${realPath}, already listed`);
+        } else {
+          visitedDirectories.add(realPath);
+          walk(itemPath, absolutePath, [...ancestors, realPath], localRules);
+        }
+      } else if (visitedFiles.has(realPath)) {
+        skip(itemPath, `same file as ${visitedFiles.get(realPath)}`);
+      } else {
+        visitedFiles.set(realPath, itemPath);
+        collection.files.push(itemPath);
+      }
+    }
+  };
+
+  const realTarget = fs.realpathSync(absoluteTarget);
+  visitedDirectories.add(realTarget);
+  walk(targetPath, absoluteTarget, [realTarget], inheritedIgnoreRules(absoluteTarget, names));
+
+  return collection;
+}
+
+export interface TargetFiles extends FileCollection {
+  /** Changed lines per file when restricted to a git revision, otherwise null */
+  changes: ChangedLines | null;
+}
+
+/**
+ * The files a check or fix of targetPath covers: the collected C files, narrowed to the
+ * files changed since a git revision when `since` is given (see getChangedLines)
+ */
+export function resolveTargetFiles(targetPath: string, since?: string, options: FileListOptions = {}): TargetFiles {
+  const collection = collectCFiles(targetPath, options);
+  if (!since) {
+    return { ...collection, changes: null };
+  }
+
+  const changes = getChangedLines(targetPath, since);
+  return {
+    files: collection.files.filter(file => getFileChanges(changes, file) !== undefined),
+    skipped: collection.skipped,
+    changes
+  };
+}
+
+export function getAllCFiles(dir: string, options: FileListOptions = {}): string[] {
+  return collectCFiles(dir, options).files;
+}
+
+/**
+ * SHA-256 hex digest of file content, used to detect edits between runs
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
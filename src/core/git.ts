@@ -0,0 +1,119 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { LineRange } from "../types.js";
+
+/**
+ * Changed line ranges per absolute file path, in the coordinates of the new side of the diff.
+ * A null entry means the whole file is new (e.g. an untracked file).
+ */
+export type ChangedLines = Map<string, LineRange[] | null>;
+
+/** Special `since` value selecting the staged changes instead of a revision */
+export const STAGED = "staged";
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error) {
+    const stderr = error instanceof Error && "stderr" in error && error.stderr ? String(error.stderr).trim() : null;
+    throw new Error(`git ${args[0]} failed: ${stderr ?? (error instanceof Error ? error.message : String(error))}`);
+  }
+}
+
+function unquotePath(raw: string): string {
+  // git quotes paths containing special characters C-style
+  if (raw.startsWith('"') && raw.endsWith('"')) {
+    return JSON.parse(raw.replace(/\\([0-7]{3})/g, (_, octal) => `\\u00${parseInt(octal, 8).toString(16).padStart(2, '0')}`));
+  }
+  return raw;
+}
+
+/**
+ * Parse `git diff --unified=0` output into changed line ranges of the new files
+ */
+export function parseUnifiedDiffRanges(diffOutput: string, repoRoot: string): ChangedLines {
+  const changes: ChangedLines = new Map();
+  let currentFile: string | null = null;
+
+  for (const line of diffOutput.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim();
+      currentFile = target === '/dev/null' ? null : path.join(repoRoot, unquotePath(target).replace(/^b\//, ''));
+      if (currentFile && !changes.has(currentFile)) {
+        changes.set(currentFile, []);
+      }
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && currentFile) {
+      const start = parseInt(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2]);
+      // A pure deletion is reported after line `start`; treat the lines around it as changed
+      const range = count === 0
+        ? { start: Math.max(1, start), end: start + 1 }
+        : { start, end: start + count - 1 };
+      changes.get(currentFile)!.push(range);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Lines changed under targetPath relative to a git revision, or the staged changes when
+ * `since` is "staged". Untracked files count as entirely changed when comparing to a revision.
+ */
+export function getChangedLines(targetPath: string, since: string): ChangedLines {
+  if (!since || since.startsWith('-')) {
+    throw new Error(`Invalid git revision: ${since}`);
+  }
+
+  const absoluteTarget = path.resolve(targetPath);
+  const cwd = fs.statSync(absoluteTarget).isDirectory() ? absoluteTarget : path.dirname(absoluteTarget);
+  const repoRoot = git(cwd, ['rev-parse', '--show-toplevel']).trim();
+
+  const revisionArgs = since === STAGED ? ['--cached'] : [since];
+  const diffOutput = git(cwd, [
+    '-c', 'core.quotepath=off',
+    'diff', '--unified=0', '--no-color', '--no-ext-diff', ...revisionArgs, '--', absoluteTarget
+  ]);
+  const changes = parseUnifiedDiffRanges(diffOutput, repoRoot);
+
+  if (since !== STAGED) {
+    const untracked = git(cwd, ['-c', 'core.quotepath=off', 'ls-files', '--others', '--exclude-standard', '--full-name', '--', absoluteTarget]);
+    for (const file of untracked.split('\n').filter(Boolean)) {
+      changes.set(path.join(repoRoot, unquotePath(file)), null);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Changed ranges for a file, resolving symlinks the same way git reports paths.
+ * Returns undefined for files that did not change.
+ */
+export function getFileChanges(changes: ChangedLines, filePath: string): LineRange[] | null | undefined {
+  let resolved = path.resolve(filePath);
+  try {
+    resolved = fs.realpathSync(resolved);
+  } catch {
+    // Keep the unresolved path for files that no longer exist
+  }
+  return changes.get(resolved);
+}
+
+/**
+ * Whether a line is inside the changed ranges of a file
+ */
+export function isLineChanged(ranges: LineRange[] | null | undefined, line: number): boolean {
+  if (ranges === null) {
+    return true;
+  }
+  if (!ranges) {
+    return false;
+  }
+  return ranges.some(range => line >= range.start && line <= range.end);
+}
@@ -0,0 +1,149 @@
+import * as path from "path";
+
+/**
+ * Convert a glob pattern to a regular expression matching '/'-separated relative paths.
+ * Supports `*` (within a path segment), `**` (any number of segments), `?` and `[...]` classes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything below
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 3;
+        } else {
+          source += '.*';
+          i += 2;
+        }
+      } else {
+        source += '[^/]*';
+        i++;
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        i++;
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end + 1;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+      i++;
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a relative path (or one of its parent directories) matches a glob.
+ * Patterns without a '/' match a file or directory name at any depth, like .gitignore;
+ * a leading '/' anchors the pattern to the root and a trailing '/' only matches directories.
+ */
+export function matchesGlob(relativePath: string, pattern: string, isDirectory: boolean = false): boolean {
+  const normalizedPath = relativePath.split('\\').join('/').replace(/^\.\//, '');
+  let glob = pattern.trim();
+  if (!glob) {
+    return false;
+  }
+
+  const directoryOnly = glob.endsWith('/');
+  glob = glob.replace(/\/+$/, '');
+
+  const anchored = glob.includes('/');
+  glob = glob.replace(/^\//, '');
+  const regex = globToRegExp(anchored ? glob : `**/${glob}`);
+
+  const segments = normalizedPath.split('/');
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const candidate = segments.slice(0, depth).join('/');
+    // Every ancestor is a directory; the full path only when the caller says so
+    const candidateIsDirectory = depth < segments.length || isDirectory;
+    if (directoryOnly && !candidateIsDirectory) {
+      continue;
+    }
+    if (regex.test(candidate)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Whether a relative path matches any of the globs
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[], isDirectory: boolean = false): boolean {
+  return patterns.some(pattern => matchesGlob(relativePath, pattern, isDirectory));
+}
+
+/**
+ * One line of a .gitignore-style file
+ */
+export interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+  /** Absolute directory the pattern is relative to */
+  base: string;
+  /** Where the rule came from, for reporting (e.g. "src/.gitignore") */
+  source: string;
+}
+
+/**
+ * Parse the contents of a .gitignore-style file: blank lines and `#` comments are skipped,
+ * `!` re-includes a previously ignored path and `\#` / `\!` escape a leading character
+ */
+export function parseIgnoreFile(content: string, base: string, source: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+      line = line.slice(1);
+    }
+    if (line) {
+      rules.push({ pattern: line, negated, base, source });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Apply ignore rules in order, the last matching rule deciding like git does.
+ * Returns the rule that ignores the path, or null when it is not ignored.
+ */
+export function findIgnoringRule(rules: IgnoreRule[], absolutePath: string, isDirectory: boolean): IgnoreRule | null {
+  let decisive: IgnoreRule | null = null;
+
+  for (const rule of rules) {
+    const relativePath = path.relative(rule.base, absolutePath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      continue;
+    }
+    if (matchesGlob(relativePath, rule.pattern, isDirectory)) {
+      decisive = rule.negated ? null : rule;
+    }
+  }
+
+  return decisive;
+}
@@ -1,2 +1,27 @@
-export { runNorminette } from "./norminette.js";
-export * from "./file-utils.js";
\ No newline at end of file
+export {
+  runNorminette,
+  runNorminetteOnContent,
+  runNorminetteOnFiles,
+  runNorminetteSince,
+  checkPath,
+  checkPaths,
+  norminetteArgs,
+  checkContent,
+  DEFAULT_NORMINETTE_TIMEOUT
+} from "./norminette.js";
+export type { NorminetteRunOptions, NorminetteOverride, CheckOptions } from "./norminette.js";
+export { parseNorminetteOutput } from "./parser.js";
+export type { ParsedNorminetteOutput, ParseOptions } from "./parser.js";
+export * from "./file-utils.js";
+export * from "./diff.js";
+export * from "./git.js";
+export * from "./glob.js";
+export * from "./concurrency.js";
+export * from "./sandbox.js";
+export * from "./version.js";
+export * from "./cache.js";
+export * from "./baseline.js";
+export * from "./context.js";
+export * from "./summary.js";
+export * from "./diagnostics-store.js";
+export * from "./watch.js";
@@ -1,60 +1,429 @@
-import { execSync } from "child_process";
-import { NorminetteError, NorminetteResult } from "../types.js";
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { NorminetteError, NorminetteFailure, NorminetteResult } from "../types.js";
+import { parseNorminetteOutput } from "./parser.js";
+import { getFileChanges, isLineChanged } from "./git.js";
+import { FileListOptions, TargetFiles, isCSourceFile, resolveTargetFiles } from "./file-utils.js";
+import { matchesAnyGlob } from "./glob.js";
+import { loadBaseline, matchBaseline } from "./baseline.js";
+import { summarizeResult } from "./summary.js";
+import { ResultCache, createCacheKey, getResultCache } from "./cache.js";
+import { DiagnosticsStore } from "./diagnostics-store.js";
+import { NORMINETTE_NOT_FOUND, assertNorminetteUsable, getNorminetteVersion } from "./version.js";
+import { DEFAULT_CONCURRENCY, ProgressSink, mapConcurrent, throwIfCancelled } from "./concurrency.js";
 
-export async function runNorminette(targetPath: string): Promise<NorminetteResult> {
-  try {
-    const output = execSync(`norminette ${targetPath}`, { 
-      encoding: 'utf-8',
-      timeout: 30000 
+/** Default time limit for one norminette invocation, in milliseconds */
+export const DEFAULT_NORMINETTE_TIMEOUT = 30000;
+
+export interface NorminetteRunOptions {
+  /** Time limit in milliseconds for each norminette process */
+  timeout?: number;
+  /** Extra command line flags passed to norminette before the target */
+  flags?: string[];
+  /** Maximum number of norminette processes running at once for multi-file checks */
+  concurrency?: number;
+  /** Kills running norminette processes and rejects with "Operation cancelled" when aborted */
+  signal?: AbortSignal;
+  /** Cache of single-file results; defaults to the process-wide in-memory cache, null disables it */
+  cache?: ResultCache | null;
+  /** Rules passed as `-R <rule>`, e.g. CheckForbiddenSourceHeader */
+  rules?: string[];
+  /** Pass --use-gitignore */
+  useGitignore?: boolean;
+  /** Pass -d and return what norminette prints under debug_output; results are not cached */
+  debug?: boolean;
+  /** Extra flags and rules for the files matching each override's globs */
+  overrides?: NorminetteOverride[];
+  /** Records the result of every single-file check on disk */
+  diagnostics?: DiagnosticsStore;
+  /** Told after each file of a multi-file check */
+  onProgress?: ProgressSink;
+}
+
+/**
+ * Flags and rules added for some files, e.g. only for headers
+ */
+export interface NorminetteOverride {
+  /** Globs matched against paths relative to root, see matchesGlob */
+  files: string[];
+  root: string;
+  flags?: string[];
+  rules?: string[];
+}
+
+export interface CheckOptions extends NorminetteRunOptions {
+  /** Only check files and lines changed since this git revision, or "staged" */
+  since?: string;
+  /** How directories are traversed, see collectCFiles */
+  fileList?: FileListOptions;
+  /** Baseline file; errors it accepts are left out and counted under `baseline` */
+  baseline?: string;
+}
+
+interface NorminetteOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+}
+
+function spawnNorminette(args: string[], options: NorminetteRunOptions): Promise<NorminetteOutput> {
+  return new Promise((resolve, reject) => {
+    throwIfCancelled(options.signal);
+
+    const child = spawn('norminette', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    child.stdout.setEncoding('utf-8').on('data', chunk => { stdout += chunk; });
+    child.stderr.setEncoding('utf-8').on('data', chunk => { stderr += chunk; });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, options.timeout ?? DEFAULT_NORMINETTE_TIMEOUT);
+    const onAbort = () => {
+      child.kill('SIGKILL');
+      reject(new Error("Operation cancelled"));
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      cleanup();
+      reject(new Error(error.code === 'ENOENT' ? NORMINETTE_NOT_FOUND : `Failed to run norminette: ${error.message}`));
+    });
+    child.on('close', exitCode => {
+      cleanup();
+      resolve({ stdout, stderr, exitCode, timedOut });
+    });
+  });
+}
+
+/**
+ * Command line flags for checking filePath: the configured flags, then those of every matching
+ * override, then --use-gitignore, -d and one `-R` per distinct rule
+ */
+export function norminetteArgs(filePath: string, options: NorminetteRunOptions = {}): string[] {
+  const args = [...(options.flags ?? [])];
+  const rules = [...(options.rules ?? [])];
+
+  for (const override of options.overrides ?? []) {
+    const relativePath = path.relative(override.root, path.resolve(filePath));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath) || !matchesAnyGlob(relativePath, override.files)) {
+      continue;
+    }
+    args.push(...(override.flags ?? []));
+    rules.push(...(override.rules ?? []));
+  }
+
+  if (options.useGitignore) {
+    args.push('--use-gitignore');
+  }
+  if (options.debug) {
+    args.push('-d');
+  }
+  for (const rule of new Set(rules)) {
+    args.push('-R', rule);
+  }
+  return args;
+}
+
+export async function runNorminette(targetPath: string, options: NorminetteRunOptions = {}): Promise<NorminetteResult> {
+  const args = norminetteArgs(targetPath, options);
+  if (isCSourceFile(targetPath) && fs.existsSync(targetPath) && fs.statSync(targetPath).isFile()) {
+    const content = fs.readFileSync(targetPath, 'utf-8');
+    const result = await withResultCache(content, targetPath, args, options, () => spawnAndParse(targetPath, args, options));
+    options.diagnostics?.record(targetPath, result);
+    return result;
+  }
+  return spawnAndParse(targetPath, args, options);
+}
+
+function resolveCache(options: NorminetteRunOptions): ResultCache | null {
+  return options.cache === undefined ? getResultCache() : options.cache;
+}
+
+/**
+ * Serve a single-file check from the cache, or run it and remember the result. Results are
+ * keyed by content, file kind, norminette version and flags; nothing is cached when the
+ * version cannot be detected, and timeouts, crashes and unattributed output are never cached.
+ */
+async function withResultCache(
+  content: string,
+  filePath: string,
+  args: string[],
+  options: NorminetteRunOptions,
+  check: () => Promise<NorminetteResult>
+): Promise<NorminetteResult> {
+  const cache = options.debug ? null : resolveCache(options);
+  const version = cache ? await getNorminetteVersion() : null;
+  if (!cache || !version) {
+    return check();
+  }
+
+  const key = createCacheKey({ content, filePath, version, flags: args });
+  const cached = cache.get(key);
+  if (cached) {
+    return buildResult({
+      filesChecked: 1,
+      errors: cached.errors.map(error => ({ file: filePath, ...error })),
+      notices: cached.notices.map(notice => ({ file: filePath, ...notice })),
+      failures: cached.failures.map(failure => ({ file: filePath, ...failure }))
+    });
+  }
+
+  const result = await check();
+  const failures = result.failures ?? [];
+  if (!result.timed_out && result.status !== "Crashed" && failures.every(failure => failure.file !== null)) {
+    const strip = <T extends { file: string | null }>({ file, ...rest }: T) => rest;
+    cache.set(key, {
+      errors: result.errors.map(strip),
+      notices: (result.notices ?? []).map(strip),
+      failures: failures.map(strip)
     });
-    
-    return parseNorminetteOutput(output, targetPath);
-  } catch (error: any) {
-    const output = error.stdout || error.stderr || error.message;
-    if (output) {
-      return parseNorminetteOutput(output, targetPath);
+  }
+  return result;
+}
+
+async function spawnAndParse(targetPath: string, args: string[], options: NorminetteRunOptions): Promise<NorminetteResult> {
+  await assertNorminetteUsable(args);
+  // Arguments are passed without a shell; a leading '-' must still not read as a flag
+  const target = targetPath.startsWith('-') ? `./${targetPath}` : targetPath;
+  const output = await spawnNorminette([...args, target], options);
+  if (output.timedOut) {
+    return buildResult({ filesChecked: 0, errors: [], timedOut: [targetPath] });
+  }
+
+  const parsed = parseNorminetteOutput(output.stdout, {
+    targetPath,
+    stderr: output.stderr,
+    exitCode: output.exitCode,
+    debug: options.debug
+  });
+  return buildResult({
+    filesChecked: parsed.files_checked,
+    errors: parsed.errors,
+    notices: parsed.notices,
+    failures: parsed.failures,
+    debugOutput: parsed.debug
+  });
+}
+
+/**
+ * Run norminette on in-memory content as if it were the file at filePath.
+ * The content is written to an isolated temp directory under the same basename
+ * (norminette derives header-guard expectations from it), and reported errors
+ * are attributed back to filePath. The working tree is never touched.
+ */
+export async function runNorminetteOnContent(
+  content: string,
+  filePath: string,
+  options: NorminetteRunOptions = {}
+): Promise<NorminetteResult> {
+  // Overrides match the file the content stands for, not the temp copy
+  const args = norminetteArgs(filePath, options);
+  return withResultCache(content, filePath, args, options, () => spawnOnContent(content, filePath, args, options));
+}
+
+async function spawnOnContent(
+  content: string,
+  filePath: string,
+  args: string[],
+  options: NorminetteRunOptions
+): Promise<NorminetteResult> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-mcp-'));
+  const tempFile = path.join(tempDir, path.basename(filePath));
+
+  try {
+    fs.writeFileSync(tempFile, content);
+    const result = await spawnAndParse(tempFile, args, options);
+    // Only one file was checked, so everything attributed to a file is about filePath
+    for (const entry of [...result.errors, ...(result.notices ?? []), ...(result.failures ?? [])]) {
+      if (entry.file !== null) {
+        entry.file = filePath;
+      }
     }
-    throw new Error(`Failed to run norminette: ${error.message}`);
-  }
-}
-
-function parseNorminetteOutput(output: string, targetPath: string): NorminetteResult {
-  const lines = output.trim().split('\n');
-  const errors: NorminetteError[] = [];
-  let filesChecked = 0;
-
-  for (const line of lines) {
-    if (line.includes(': OK!')) {
-      filesChecked++;
-    } else if (line.includes(': Error!')) {
-      filesChecked++;
-    } else if (line.startsWith('Error: ')) {
-      const match = line.match(/^Error:\s+(\w+)\s+\(line:\s*(\d+),\s*col:\s*(\d+)\):\s*(.+)$/);
-      if (match) {
-        let currentFile = targetPath;
-        for (let i = lines.indexOf(line) - 1; i >= 0; i--) {
-          if (lines[i].includes(': Error!') || lines[i].includes(': OK!')) {
-            currentFile = lines[i].split(':')[0].trim();
-            break;
-          }
-        }
-        
-        errors.push({
-          file: currentFile,
-          line: parseInt(match[2]),
-          column: parseInt(match[3]),
-          error_type: match[1],
-          error_code: match[1],
-          description: match[4].trim()
-        });
+    return result;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check C source text that is not on disk. The virtual filename decides whether the .c or .h
+ * rules apply (header guards are derived from its basename) and is what errors are attributed
+ * to; it does not need to exist.
+ */
+export async function checkContent(
+  content: string,
+  filename: string,
+  options: NorminetteRunOptions = {}
+): Promise<NorminetteResult> {
+  if (!isCSourceFile(filename)) {
+    throw new Error(`Virtual filename must end in .c or .h: ${filename}`);
+  }
+  const result = await runNorminetteOnContent(content, filename, options);
+  resolveCache(options)?.flush();
+  return result;
+}
+
+/**
+ * Run norminette on each file, up to `concurrency` processes at a time, and combine the
+ * results into one. A file that exceeds the timeout is listed in `timed_out` instead of
+ * failing the whole check.
+ */
+export async function runNorminetteOnFiles(files: string[], options: NorminetteRunOptions = {}): Promise<NorminetteResult> {
+  let done = 0;
+  const results = await mapConcurrent(
+    files,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async file => {
+      const result = await runNorminette(file, options);
+      done++;
+      options.onProgress?.({ progress: done, total: files.length, message: `Checked ${file} (${done}/${files.length})` });
+      return result;
+    },
+    options.signal
+  );
+
+  resolveCache(options)?.flush();
+  return combineResults(results);
+}
+
+/**
+ * Check a file or directory on exactly the files the fixer would touch (see resolveTargetFiles),
+ * rather than letting norminette walk the directory itself. With `since`, only errors on
+ * changed lines are reported. Paths left out of the traversal are listed in `skipped`.
+ */
+export async function checkPath(targetPath: string, options: CheckOptions = {}): Promise<NorminetteResult> {
+  return checkPaths([targetPath], options);
+}
+
+/**
+ * Check several files and directories as one target, like `norminette a.c src/`.
+ * A file reached through more than one of the paths is checked once.
+ */
+export async function checkPaths(targetPaths: string[], options: CheckOptions = {}): Promise<NorminetteResult> {
+  const target = mergeTargets(targetPaths.map(targetPath => resolveTargetFiles(targetPath, options.since, options.fileList)));
+  const baseline = options.baseline ? loadBaseline(options.baseline) : null;
+  const result = await runNorminetteOnFiles(target.files, options);
+  const onChangedLine = (error: NorminetteError) =>
+    !target.changes || isLineChanged(getFileChanges(target.changes, error.file), error.line);
+
+  // Baseline entries are matched against whole files, before narrowing to changed lines.
+  // Files norminette did not fully check could still have their accepted errors, so none of
+  // their entries count as fixed.
+  const unchecked = new Set([
+    ...(result.timed_out ?? []),
+    ...(result.failures ?? []).flatMap(failure => failure.file === null ? [] : [failure.file])
+  ].map(file => path.resolve(file)));
+  const matchedBaseline = baseline
+    ? matchBaseline(result.errors, baseline, options.baseline!, target.files.filter(file => !unchecked.has(path.resolve(file))))
+    : null;
+
+  const checked = buildResult({
+    filesChecked: result.files_checked,
+    errors: (matchedBaseline?.errors ?? result.errors).filter(onChangedLine),
+    notices: (result.notices ?? []).filter(onChangedLine),
+    failures: result.failures,
+    timedOut: result.timed_out,
+    debugOutput: result.debug_output
+  });
+  if (target.skipped.length > 0) {
+    checked.skipped = target.skipped;
+  }
+  if (matchedBaseline) {
+    checked.baseline = { ...matchedBaseline.summary, new: checked.errors.length };
+    checked.summary = summarizeResult(checked);
+  }
+  return checked;
+}
+
+/**
+ * Run norminette only on the C files under targetPath changed since a git revision
+ * (or staged, see getChangedLines) and report only errors on changed lines
+ */
+export async function runNorminetteSince(
+  targetPath: string,
+  since: string,
+  options: NorminetteRunOptions = {}
+): Promise<NorminetteResult> {
+  return checkPath(targetPath, { ...options, since });
+}
+
+function mergeTargets(targets: TargetFiles[]): TargetFiles {
+  if (targets.length === 1) {
+    return targets[0];
+  }
+  const seen = new Set<string>();
+  const merged: TargetFiles = { files: [], skipped: [], changes: null };
+  for (const target of targets) {
+    for (const file of target.files) {
+      if (!seen.has(path.resolve(file))) {
+        seen.add(path.resolve(file));
+        merged.files.push(file);
       }
     }
+    merged.skipped.push(...target.skipped);
+    if (target.changes) {
+      merged.changes = new Map([...(merged.changes ?? []), ...target.changes]);
+    }
   }
+  return merged;
+}
 
-  return {
-    status: errors.length > 0 ? "Error" : "OK",
+interface ResultParts {
+  filesChecked: number;
+  errors: NorminetteError[];
+  notices?: NorminetteError[];
+  failures?: NorminetteFailure[];
+  timedOut?: string[];
+  debugOutput?: string[];
+}
+
+function buildResult(parts: ResultParts): NorminetteResult {
+  const { filesChecked, errors } = parts;
+  const notices = parts.notices ?? [];
+  const failures = parts.failures ?? [];
+  const timedOut = parts.timedOut ?? [];
+  const crashed = failures.some(failure => failure.kind === "crash");
+  // A file norminette could not parse or check in time is not known to be OK
+  const fileFailures = failures.filter(failure => failure.kind !== "unrecognized_output");
+
+  const result: NorminetteResult = {
+    status: crashed ? "Crashed" : errors.length > 0 || fileFailures.length > 0 || timedOut.length > 0 ? "Error" : "OK",
     files_checked: filesChecked,
-    errors,
-    summary: `Checked ${filesChecked} files, found ${errors.length} errors`
+    summary: summarizeResult({ files_checked: filesChecked, errors, notices, failures, timed_out: timedOut }),
+    errors
   };
-}
\ No newline at end of file
+  if (notices.length > 0) {
+    result.notices = notices;
+  }
+  if (failures.length > 0) {
+    result.failures = failures;
+  }
+  if (timedOut.length > 0) {
+    result.timed_out = timedOut;
+  }
+  if (parts.debugOutput && parts.debugOutput.length > 0) {
+    result.debug_output = parts.debugOutput;
+  }
+  return result;
+}
+
+function combineResults(results: NorminetteResult[]): NorminetteResult {
+  return buildResult({
+    filesChecked: results.reduce((sum, result) => sum + result.files_checked, 0),
+    errors: results.flatMap(result => result.errors),
+    notices: results.flatMap(result => result.notices ?? []),
+    failures: results.flatMap(result => result.failures ?? []),
+    timedOut: results.flatMap(result => result.timed_out ?? []),
+    debugOutput: results.flatMap(result => result.debug_output ?? [])
+  });
+}
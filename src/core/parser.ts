@@ -0,0 +1,158 @@
+import { NorminetteError, NorminetteFailure } from "../types.js";
+
+export interface ParsedNorminetteOutput {
+  files_checked: number;
+  errors: NorminetteError[];
+  notices: NorminetteError[];
+  failures: NorminetteFailure[];
+  /** Unrecognized lines, when parsing debug output */
+  debug: string[];
+}
+
+export interface ParseOptions {
+  /** File errors are attributed to when they appear before any file header */
+  targetPath?: string;
+  /** Standard error of the norminette process, searched for tracebacks */
+  stderr?: string;
+  /** Exit code of the norminette process; non-zero without any recognized output is a crash */
+  exitCode?: number | null;
+  /** Output of `norminette -d`: unrecognized lines are debug output rather than failures */
+  debug?: boolean;
+}
+
+const FILE_HEADER = /^(.+): (OK|Error)!$/;
+const DIAGNOSTIC = /^(Error|Notice):\s*([A-Z0-9_]+)\s*\(line:\s*(\d+),\s*col:\s*(\d+)\):\s*(.*)$/;
+const UNRECOGNIZED_TOKEN = /^Error:\s*Unrecognized token line (\d+), col (\d+)/;
+const UNRECOGNIZED_LINE = /^Error:\s*Unrecognized line \((\d+), (\d+)\) while parsing line (.*)$/;
+const OTHER_ERROR = /^Error:\s*(.+)$/;
+const TRACEBACK_START = /^Traceback \(most recent call last\):/;
+
+/**
+ * Parse norminette output line by line. The state is the file whose header was seen last,
+ * so every diagnostic belongs to the nearest header above it; a Python traceback switches
+ * to collecting its lines until the exception message that ends it.
+ */
+export function parseNorminetteOutput(stdout: string, options: ParseOptions = {}): ParsedNorminetteOutput {
+  const parsed: ParsedNorminetteOutput = { files_checked: 0, errors: [], notices: [], failures: [], debug: [] };
+  let currentFile: string | null = null;
+  let traceback: string[] | null = null;
+  const unrecognized: string[] = [];
+
+  const lines = [...stdout.split('\n'), ...(options.stderr ?? '').split('\n')];
+
+  for (const rawLine of lines) {
+    // Colors are only emitted on a terminal, but strip them in case FORCE_COLOR is set
+    const line = rawLine.replace(/\r$/, '').replace(/\x1b\[[0-9;]*m/g, '');
+    const trimmed = line.trim();
+
+    if (traceback) {
+      traceback.push(line);
+      // The traceback ends with the unindented "SomeError: message" line
+      if (trimmed && !/^\s/.test(line)) {
+        parsed.failures.push({
+          file: currentFile,
+          kind: "crash",
+          message: trimmed,
+          traceback: traceback.join('\n')
+        });
+        traceback = null;
+      }
+      continue;
+    }
+
+    if (!trimmed) {
+      continue;
+    }
+
+    if (TRACEBACK_START.test(trimmed)) {
+      traceback = [line];
+      continue;
+    }
+
+    const header = trimmed.match(FILE_HEADER);
+    if (header) {
+      currentFile = header[1];
+      parsed.files_checked++;
+      continue;
+    }
+
+    const diagnostic = trimmed.match(DIAGNOSTIC);
+    if (diagnostic) {
+      const entry: NorminetteError = {
+        file: currentFile ?? options.targetPath ?? '',
+        line: parseInt(diagnostic[3]),
+        column: parseInt(diagnostic[4]),
+        error_type: diagnostic[2],
+        error_code: diagnostic[2],
+        description: diagnostic[5].trim()
+      };
+      (diagnostic[1] === 'Notice' ? parsed.notices : parsed.errors).push(entry);
+      continue;
+    }
+
+    const token = trimmed.match(UNRECOGNIZED_TOKEN);
+    if (token) {
+      parsed.failures.push({
+        file: currentFile ?? options.targetPath ?? null,
+        kind: "unrecognized_token",
+        message: trimmed.replace(/^Error:\s*/, ''),
+        line: parseInt(token[1]),
+        column: parseInt(token[2])
+      });
+      continue;
+    }
+
+    const parseError = trimmed.match(UNRECOGNIZED_LINE);
+    if (parseError) {
+      parsed.failures.push({
+        file: currentFile ?? options.targetPath ?? null,
+        kind: "parse_error",
+        message: trimmed.replace(/^Error:\s*/, ''),
+        line: parseInt(parseError[1]),
+        column: parseInt(parseError[2])
+      });
+      continue;
+    }
+
+    const otherError = trimmed.match(OTHER_ERROR);
+    if (otherError) {
+      parsed.failures.push({
+        file: currentFile ?? options.targetPath ?? null,
+        kind: "file_error",
+        message: otherError[1]
+      });
+      continue;
+    }
+
+    unrecognized.push(trimmed);
+  }
+
+  if (traceback) {
+    // Output ended in the middle of a traceback (e.g. the process was killed)
+    parsed.failures.push({
+      file: currentFile,
+      kind: "crash",
+      message: traceback[traceback.length - 1].trim() || 'norminette crashed',
+      traceback: traceback.join('\n')
+    });
+  }
+
+  const recognizedAnything = parsed.files_checked > 0 || parsed.errors.length > 0 || parsed.failures.length > 0;
+  if (!recognizedAnything && options.exitCode !== undefined && options.exitCode !== 0) {
+    parsed.failures.push({
+      file: null,
+      kind: "crash",
+      message: unrecognized.join('\n') || `norminette exited with code ${options.exitCode} without output`
+    });
+  } else if (options.debug) {
+    parsed.debug = unrecognized;
+  } else if (unrecognized.length > 0) {
+    parsed.failures.push({
+      file: null,
+      kind: "unrecognized_output",
+      message: unrecognized.join('\n')
+    });
+  }
+
+  return parsed;
+}
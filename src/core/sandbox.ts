@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Environment variable listing the directories tools may access, separated by the
+ * platform path delimiter (':' on Unix). Takes precedence over the client's MCP roots.
+ */
+export const ALLOWED_ROOTS_ENV = "NORMINETTE_MCP_ALLOWED_ROOTS";
+
+/**
+ * Directories tools may read and write below; null means unrestricted
+ */
+export type AllowedRoots = string[] | null;
+
+/**
+ * Resolve a path with every symlink followed. For a path that does not exist yet,
+ * the nearest existing ancestor is resolved and the remaining segments appended.
+ */
+export function resolveRealPath(targetPath: string): string {
+  const absolute = path.resolve(targetPath);
+  const missing: string[] = [];
+  let current = absolute;
+
+  while (true) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing);
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return absolute;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Whether a path, after resolving `..` segments and symlinks, is inside one of the roots
+ */
+export function isPathAllowed(targetPath: string, roots: AllowedRoots): boolean {
+  if (roots === null) {
+    return true;
+  }
+
+  const resolved = resolveRealPath(targetPath);
+  return roots.some(root => {
+    const relative = path.relative(resolveRealPath(root), resolved);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+}
+
+/**
+ * Throw unless the path is inside the allowed roots
+ */
+export function assertPathAllowed(targetPath: string, roots: AllowedRoots): void {
+  if (!isPathAllowed(targetPath, roots)) {
+    throw new Error(`Path is outside the allowed roots: ${targetPath} (allowed: ${roots!.join(', ')})`);
+  }
+}
+
+/**
+ * Allowed roots configured through $NORMINETTE_MCP_ALLOWED_ROOTS, or null when unset
+ */
+export function getEnvAllowedRoots(): AllowedRoots {
+  const value = process.env[ALLOWED_ROOTS_ENV];
+  if (!value) {
+    return null;
+  }
+  return value.split(path.delimiter).filter(Boolean).map(root => path.resolve(root));
+}
@@ -0,0 +1,60 @@
+import { NorminetteResult, ResultSummary } from "../types.js";
+
+/** Number of files listed under worst_files */
+export const WORST_FILES_LIMIT = 5;
+
+export type SummarizableResult = Pick<NorminetteResult, "files_checked" | "errors" | "notices" | "failures" | "timed_out" | "baseline">;
+
+function countBy<T>(items: T[], key: (item: T) => string): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  }
+  // Most frequent first, ties in name order so the output is stable
+  return [...counts].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+}
+
+/**
+ * Structured summary of a result. byFile adds the error count of every file with errors.
+ */
+export function summarizeResult(result: SummarizableResult, byFile: boolean = false): ResultSummary {
+  const notices = result.notices ?? [];
+  const failures = result.failures ?? [];
+  const timedOut = result.timed_out ?? [];
+  const crashed = failures.some(failure => failure.kind === "crash");
+  const fileFailures = failures.filter(failure => failure.kind !== "unrecognized_output");
+  const perFile = countBy(result.errors, error => error.file);
+
+  let message = `Checked ${result.files_checked} files, found ${result.errors.length} errors`;
+  if (notices.length > 0) {
+    message += `, ${notices.length} notices`;
+  }
+  if (failures.length > 0) {
+    message += crashed ? ', norminette crashed' : `, ${new Set(fileFailures.map(failure => failure.file)).size} files could not be checked`;
+  }
+  if (timedOut.length > 0) {
+    message += `, ${timedOut.length} files timed out`;
+  }
+  if (result.baseline) {
+    message += `, ${result.baseline.matched} accepted by the baseline`;
+    if (result.baseline.stale > 0) {
+      message += `, ${result.baseline.stale} baseline entries fixed`;
+    }
+  }
+
+  const summary: ResultSummary = {
+    message,
+    files_checked: result.files_checked,
+    files_with_errors: perFile.length,
+    errors: result.errors.length,
+    notices: notices.length,
+    failures: fileFailures.length,
+    timed_out: timedOut.length,
+    by_code: Object.fromEntries(countBy(result.errors, error => error.error_code)),
+    worst_files: perFile.slice(0, WORST_FILES_LIMIT).map(([file, errors]) => ({ file, errors }))
+  };
+  if (byFile) {
+    summary.by_file = Object.fromEntries(perFile);
+  }
+  return summary;
+}
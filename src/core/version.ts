@@ -0,0 +1,110 @@
+import { ExecFileException, execFile } from "child_process";
+
+/** Oldest norminette major version whose output the parser understands */
+export const MIN_NORMINETTE_MAJOR = 3;
+
+export const NORMINETTE_NOT_FOUND = "norminette was not found on PATH. Install it with `python3 -m pip install norminette` and restart the server";
+
+/**
+ * What was detected about the norminette on PATH
+ */
+export interface NorminetteInstallation {
+  installed: boolean;
+  /** e.g. "3.3.55", or null when missing or not recognized */
+  version: string | null;
+  /** Options listed by `norminette --help` (e.g. "-R", "--cfile"); empty when the help could not be read */
+  options: string[];
+  /** Why norminette cannot be used, when it cannot */
+  error?: string;
+}
+
+let installationPromise: Promise<NorminetteInstallation> | null = null;
+
+function runNorminetteCommand(args: string[]): Promise<{ stdout: string; error: ExecFileException | null }> {
+  return new Promise(resolve => {
+    execFile('norminette', args, { timeout: 10000, encoding: 'utf-8' }, (error, stdout) => {
+      resolve({ stdout, error });
+    });
+  });
+}
+
+/**
+ * Extract the version number from `norminette --version` output
+ */
+export function parseNorminetteVersion(output: string): string | null {
+  const match = output.match(/(\d+\.\d+(?:\.\d+)*)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Extract the options listed in `norminette --help` output
+ */
+export function parseNorminetteOptions(help: string): string[] {
+  const options = new Set<string>();
+  for (const match of help.matchAll(/(?:^|[\s,\[])(--?[A-Za-z][\w-]*)/g)) {
+    options.add(match[1]);
+  }
+  return [...options].sort();
+}
+
+/**
+ * Detect whether norminette is installed, its version and the options it supports.
+ * Detected once per process.
+ */
+export function detectNorminette(): Promise<NorminetteInstallation> {
+  installationPromise ??= (async () => {
+    const versionRun = await runNorminetteCommand(['--version']);
+    if (versionRun.error?.code === 'ENOENT') {
+      return { installed: false, version: null, options: [], error: NORMINETTE_NOT_FOUND };
+    }
+
+    const version = versionRun.error ? null : parseNorminetteVersion(versionRun.stdout);
+    const helpRun = await runNorminetteCommand(['--help']);
+    const installation: NorminetteInstallation = {
+      installed: true,
+      version,
+      options: helpRun.error ? [] : parseNorminetteOptions(helpRun.stdout)
+    };
+    if (version && parseInt(version) < MIN_NORMINETTE_MAJOR) {
+      installation.error = `norminette ${version} is not supported; version ${MIN_NORMINETTE_MAJOR} or later is required`;
+    }
+    return installation;
+  })();
+  return installationPromise;
+}
+
+/**
+ * Version reported by `norminette --version` (e.g. "3.3.55"), or null when norminette is
+ * missing or its output is not recognized
+ */
+export async function getNorminetteVersion(): Promise<string | null> {
+  return (await detectNorminette()).version;
+}
+
+/**
+ * Throw a descriptive error when norminette is missing or too old, or when one of the flags
+ * is not an option of the installed version. Unknown versions are given the benefit of the doubt.
+ */
+export async function assertNorminetteUsable(flags: string[] = []): Promise<void> {
+  const installation = await detectNorminette();
+  if (installation.error) {
+    throw new Error(installation.error);
+  }
+  if (installation.options.length === 0) {
+    return;
+  }
+  const name = installation.version ? `norminette ${installation.version}` : "norminette";
+  for (const flag of flags.filter(flag => flag.startsWith('-'))) {
+    const option = flag.split('=')[0];
+    if (!installation.options.includes(option)) {
+      throw new Error(`${name} does not support ${option} (supported options: ${installation.options.join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Forget what was detected, e.g. after norminette was installed or upgraded
+ */
+export function resetNorminetteVersion(): void {
+  installationPromise = null;
+}
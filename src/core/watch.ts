@@ -0,0 +1,300 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ResultSummary } from "../types.js";
+import { NorminetteRunOptions, runNorminetteOnFiles } from "./norminette.js";
+import { DEFAULT_EXCLUDES, FileListOptions, collectCFiles, isCSourceFile } from "./file-utils.js";
+import { DiagnosticsStore, getDiagnosticsStore } from "./diagnostics-store.js";
+
+/** Quiet period after the last change before changed files are re-checked, in milliseconds */
+export const DEFAULT_WATCH_DEBOUNCE = 300;
+
+export interface WatchOptions extends NorminetteRunOptions {
+  /** Which files are watched, see collectCFiles */
+  fileList?: FileListOptions;
+  /** Milliseconds without further changes before the changed files are re-checked */
+  debounce?: number;
+}
+
+export interface WatchStatus {
+  path: string;
+  /** "starting" until every file was checked once */
+  state: "starting" | "watching" | "stopped";
+  started_at: string;
+  /** C files being watched */
+  files: number;
+  /** Changed files waiting to be re-checked */
+  pending: number;
+  /** Check runs so far, the initial one included */
+  checks: number;
+  last_check?: string;
+  /** Why the last check or the watch itself failed */
+  last_error?: string;
+  /** Counts over the latest diagnostics of the watched files */
+  summary: ResultSummary;
+}
+
+/**
+ * Keeps the diagnostics of every C file under a directory up to date: all files are checked
+ * once, then files are re-checked after they change, in debounced batches. Results go to a
+ * DiagnosticsStore, the process-wide one unless another is given.
+ */
+export class DirectoryWatcher {
+  readonly root: string;
+  private readonly diagnostics: DiagnosticsStore;
+  private readonly debounce: number;
+  private readonly abort = new AbortController();
+  private readonly startedAt = new Date().toISOString();
+  /** The recursive watcher of the root, or one watcher per directory where recursive watching is unsupported */
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private recursive = true;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private pending = new Set<string>();
+  private files = new Set<string>();
+  private state: WatchStatus["state"] = "starting";
+  private checks = 0;
+  private lastCheck?: string;
+  private lastError?: string;
+
+  constructor(root: string, private readonly options: WatchOptions = {}) {
+    this.root = path.resolve(root);
+    this.diagnostics = options.diagnostics ?? getDiagnosticsStore();
+    this.debounce = options.debounce ?? DEFAULT_WATCH_DEBOUNCE;
+  }
+
+  /**
+   * Start watching and check every file once; resolves when that first check finished
+   */
+  async start(): Promise<void> {
+    try {
+      this.watchers.set(this.root, this.watch(this.root));
+    } catch (error) {
+      // Linux before Node 20 cannot watch recursively
+      if ((error as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+        throw error;
+      }
+      this.recursive = false;
+      this.watchTree(this.root, true);
+    }
+
+    this.running = this.check(this.listFiles());
+    await this.running;
+    this.running = null;
+    if (this.state === "starting") {
+      this.state = "watching";
+    }
+    this.flush();
+  }
+
+  /**
+   * Stop watching and kill a running check. The recorded diagnostics are kept.
+   */
+  stop(): void {
+    this.state = "stopped";
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.abort.abort();
+    this.pending.clear();
+  }
+
+  /**
+   * Resolves once no changed file is waiting and no check is running
+   */
+  async idle(): Promise<void> {
+    while (this.running || this.timer) {
+      await (this.running ?? new Promise(resolve => setTimeout(resolve, this.debounce)));
+    }
+  }
+
+  status(): WatchStatus {
+    const status: WatchStatus = {
+      path: this.root,
+      state: this.state,
+      started_at: this.startedAt,
+      files: this.files.size,
+      pending: this.pending.size,
+      checks: this.checks,
+      summary: this.diagnostics.summarize(entry => this.files.has(entry.file))
+    };
+    if (this.lastCheck) {
+      status.last_check = this.lastCheck;
+    }
+    if (this.lastError) {
+      status.last_error = this.lastError;
+    }
+    return status;
+  }
+
+  private watch(dir: string): fs.FSWatcher {
+    const watcher = fs.watch(dir, { recursive: this.recursive }, (_event, filename) => {
+      if (filename) {
+        this.changed(path.join(dir, filename.toString()));
+      }
+    });
+    watcher.on('error', error => {
+      if (dir === this.root) {
+        this.lastError = `Watching stopped: ${error.message}`;
+        this.stop();
+      } else {
+        // A subdirectory went away
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    });
+    // Watching alone does not keep the process alive
+    watcher.unref();
+    return watcher;
+  }
+
+  /**
+   * Watch a directory and its subdirectories one by one. Files of a directory that appeared
+   * after the start count as changed, since they may have been written before it was watched.
+   */
+  private watchTree(dir: string, initial: boolean): void {
+    if (this.state === "stopped" || this.watchers.has(dir) || (dir !== this.root && DEFAULT_EXCLUDES.includes(`${path.basename(dir)}/`))) {
+      return;
+    }
+    let entries: fs.Dirent[];
+    try {
+      this.watchers.set(dir, this.watch(dir));
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      if (dir === this.root) {
+        throw error;
+      }
+      // Removed again before it could be watched
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        this.watchTree(entryPath, initial);
+      } else if (!initial) {
+        this.changed(entryPath);
+      }
+    }
+  }
+
+  private listFiles(): string[] {
+    return collectCFiles(this.root, this.options.fileList).files.map(file => path.resolve(file));
+  }
+
+  private changed(file: string): void {
+    if (this.state === "stopped") {
+      return;
+    }
+    if (!isCSourceFile(file)) {
+      if (!this.recursive && !this.watchers.has(file) && isDirectory(file)) {
+        this.watchTree(file, false);
+      }
+      return;
+    }
+    this.pending.add(file);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.debounce);
+    this.timer.unref();
+  }
+
+  /**
+   * Re-check the pending files, unless a check is running; changes made meanwhile are
+   * picked up when it ends
+   */
+  private flush(): void {
+    if (this.running || this.timer || this.pending.size === 0 || this.state !== "watching") {
+      return;
+    }
+    const changed = [...this.pending];
+    this.pending.clear();
+    this.running = this.recheck(changed).finally(() => {
+      this.running = null;
+      this.flush();
+    });
+  }
+
+  private async recheck(changed: string[]): Promise<void> {
+    // A change event can also mean the file was deleted, renamed away or is ignored
+    const inScope = new Set(this.listFiles());
+    for (const file of changed.filter(file => !inScope.has(file))) {
+      this.files.delete(file);
+      this.diagnostics.delete(file);
+    }
+    await this.check(changed.filter(file => inScope.has(file)));
+  }
+
+  private async check(files: string[]): Promise<void> {
+    if (files.length === 0) {
+      return;
+    }
+    try {
+      await runNorminetteOnFiles(files, { ...this.options, diagnostics: this.diagnostics, signal: this.abort.signal });
+      for (const file of files) {
+        this.files.add(file);
+      }
+      this.checks++;
+      this.lastCheck = new Date().toISOString();
+      this.lastError = undefined;
+    } catch (error) {
+      if (this.state !== "stopped") {
+        this.lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+}
+
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+const watchers = new Map<string, DirectoryWatcher>();
+
+/**
+ * Start watching a directory, or return the watcher already running for it
+ */
+export async function startWatching(root: string, options: WatchOptions = {}): Promise<DirectoryWatcher> {
+  const existing = watchers.get(path.resolve(root));
+  if (existing) {
+    return existing;
+  }
+  const watcher = new DirectoryWatcher(root, options);
+  watchers.set(watcher.root, watcher);
+  try {
+    await watcher.start();
+  } catch (error) {
+    watcher.stop();
+    watchers.delete(watcher.root);
+    throw error;
+  }
+  return watcher;
+}
+
+/**
+ * Stop the watcher of a directory; returns whether one was running
+ */
+export function stopWatching(root: string): boolean {
+  const watcher = watchers.get(path.resolve(root));
+  if (!watcher) {
+    return false;
+  }
+  watcher.stop();
+  watchers.delete(watcher.root);
+  return true;
+}
+
+export function getWatchers(): DirectoryWatcher[] {
+  return [...watchers.values()];
+}
@@ -0,0 +1,83 @@
+import { NorminetteError } from "../types.js";
+import { createLineMap } from "../core/diff.js";
+
+function errorKey(code: string, line: number): string {
+  return `${code}:${line}`;
+}
+
+/**
+ * Follow errors through a content change, returning copies with their line
+ * numbers in newContent. Errors on lines that were removed are dropped.
+ */
+export function mapErrorLines(errors: NorminetteError[], oldContent: string, newContent: string): NorminetteError[] {
+  if (oldContent === newContent) {
+    return errors;
+  }
+
+  const lineMap = createLineMap(oldContent, newContent);
+  const mapped: NorminetteError[] = [];
+  for (const error of errors) {
+    const line = lineMap(error.line);
+    if (line !== null) {
+      mapped.push({ ...error, line });
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Compare the errors reported before and after a content change.
+ * Errors are matched by error code and line (followed through the diff); columns are
+ * ignored because whitespace fixes move them. Returned entries are the original objects
+ * from `before` (eliminated) and `after` (introduced).
+ */
+export function compareErrors(
+  before: NorminetteError[],
+  after: NorminetteError[],
+  oldContent: string,
+  newContent: string
+): { eliminated: NorminetteError[]; introduced: NorminetteError[] } {
+  const lineMap = oldContent === newContent ? (line: number) => line : createLineMap(oldContent, newContent);
+
+  // Multiset of errors still present after the change
+  const remaining = new Map<string, NorminetteError[]>();
+  for (const error of after) {
+    const key = errorKey(error.error_code, error.line);
+    remaining.set(key, [...(remaining.get(key) ?? []), error]);
+  }
+
+  const eliminated: NorminetteError[] = [];
+  for (const error of before) {
+    const line = lineMap(error.line);
+    const candidates = line === null ? undefined : remaining.get(errorKey(error.error_code, line));
+    if (candidates && candidates.length > 0) {
+      candidates.shift();
+    } else {
+      eliminated.push(error);
+    }
+  }
+
+  const introduced = [...remaining.values()].flat();
+  return { eliminated, introduced };
+}
+
+/**
+ * Errors from `errors` that also appear (same code and line) in `reference`
+ */
+export function intersectErrors(errors: NorminetteError[], reference: NorminetteError[]): NorminetteError[] {
+  const available = new Map<string, number>();
+  for (const error of reference) {
+    const key = errorKey(error.error_code, error.line);
+    available.set(key, (available.get(key) ?? 0) + 1);
+  }
+
+  return errors.filter(error => {
+    const key = errorKey(error.error_code, error.line);
+    const count = available.get(key) ?? 0;
+    if (count === 0) {
+      return false;
+    }
+    available.set(key, count - 1);
+    return true;
+  });
+}
@@ -0,0 +1,97 @@
+import { FixStopReason, NorminetteError } from "../types.js";
+import { hashContent } from "../core/file-utils.js";
+import { throwIfCancelled } from "../core/concurrency.js";
+
+/**
+ * Content between two fix passes and the errors norminette reports in it
+ */
+export interface FixState {
+  content: string;
+  errors: NorminetteError[];
+}
+
+/**
+ * One pass that changed the content; rejected passes leave the state as it was before
+ */
+export interface PassAttempt<S extends FixState> {
+  pass: number;
+  before: S;
+  after: S;
+  accepted: boolean;
+}
+
+export interface ConvergenceOptions<S extends FixState> {
+  /** Maximum number of passes, a positive integer */
+  maxPasses: number;
+  /** Number of errors in a state the fixers may target; the loop ends when it stops shrinking */
+  targetable: (state: S) => number;
+  signal?: AbortSignal;
+}
+
+export interface ConvergenceOutcome<S extends FixState> {
+  /** State after the last accepted pass, the initial one when none was accepted */
+  state: S;
+  attempts: PassAttempt<S>[];
+  stopReason: FixStopReason;
+}
+
+/**
+ * Throw unless maxPasses is a positive integer; undefined means the default applies
+ */
+export function assertMaxPasses(maxPasses: unknown): void {
+  if (maxPasses !== undefined && !(Number.isInteger(maxPasses) && (maxPasses as number) > 0)) {
+    throw new Error(`max_passes must be a positive integer: ${String(maxPasses)}`);
+  }
+}
+
+/**
+ * Run fix passes until the targetable errors stop shrinking. A pass that leaves the content
+ * unchanged, returns to content seen before (the stages are undoing each other) or increases
+ * the targetable errors is not accepted; one that keeps them level is accepted as the last.
+ */
+export async function iterateFixPasses<S extends FixState>(
+  initial: S,
+  runPass: (state: S, pass: number) => Promise<S>,
+  options: ConvergenceOptions<S>
+): Promise<ConvergenceOutcome<S>> {
+  const attempts: PassAttempt<S>[] = [];
+  const seenHashes = new Set([hashContent(initial.content)]);
+  let state = initial;
+  const stop = (stopReason: FixStopReason): ConvergenceOutcome<S> => ({ state, attempts, stopReason });
+
+  for (let pass = 1; ; pass++) {
+    throwIfCancelled(options.signal);
+    const before = options.targetable(state);
+    if (before === 0) {
+      return stop("converged");
+    }
+    if (pass > options.maxPasses) {
+      return stop("max_passes");
+    }
+
+    const next = await runPass(state, pass);
+    if (next.content === state.content) {
+      return stop("no_changes");
+    }
+
+    const attempt: PassAttempt<S> = { pass, before: state, after: next, accepted: false };
+    attempts.push(attempt);
+
+    const hash = hashContent(next.content);
+    if (seenHashes.has(hash)) {
+      return stop("cycle");
+    }
+    seenHashes.add(hash);
+
+    const after = options.targetable(next);
+    if (after > before) {
+      return stop("no_progress");
+    }
+
+    attempt.accepted = true;
+    state = next;
+    if (after === before) {
+      return stop("no_progress");
+    }
+  }
+}
@@ -1,8 +1,35 @@
-import { execSync } from "child_process";
+import { execFile } from "child_process";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
+import { throwIfCancelled } from "../../core/concurrency.js";
 
-export function generateClangFormatConfigString(): string {
+/**
+ * clang-format style options overriding the generated 42 style, keyed by option name
+ */
+export type ClangFormatOverrides = Record<string, string | number | boolean>;
+
+export function generateClangFormatConfigString(overrides: ClangFormatOverrides = {}): string {
+  const lines = baseClangFormatConfig().split('\n');
+  const remaining = new Map(Object.entries(overrides));
+
+  const merged = lines.map(line => {
+    const key = line.slice(0, line.indexOf(':'));
+    if (!remaining.has(key)) {
+      return line;
+    }
+    const value = remaining.get(key);
+    remaining.delete(key);
+    return `${key}: ${value}`;
+  });
+  for (const [key, value] of remaining) {
+    merged.push(`${key}: ${value}`);
+  }
+
+  return merged.join('\n');
+}
+
+function baseClangFormatConfig(): string {
   return `Language: Cpp
 TabWidth: 4
 IndentWidth: 4
@@ -40,56 +67,87 @@ KeepEmptyLinesAtTheStartOfBlocks: false
 InsertNewlineAtEOF: true`;
 }
 
-export function checkClangFormatAvailability(): boolean {
-  try {
-    execSync('clang-format --version', { 
-      encoding: 'utf-8', 
-      timeout: 5000,
-      stdio: 'pipe'
+/** Outcome of the one `clang-format --version` run per process */
+let clangFormatVersion: Promise<string | null> | null = null;
+
+export async function checkClangFormatAvailability(): Promise<boolean> {
+  return (await getClangFormatVersion()) !== null;
+}
+
+/**
+ * Version reported by `clang-format --version` (e.g. "18.1.3"), or null when it is not installed.
+ * Detected once per process.
+ */
+export function getClangFormatVersion(): Promise<string | null> {
+  clangFormatVersion ??= runClangFormat(['--version'], '', { timeout: 5000 }).then(
+    output => output.match(/version (\d+(?:\.\d+)*)/)?.[1] ?? 'unknown',
+    () => null
+  );
+  return clangFormatVersion;
+}
+
+function runClangFormat(args: string[], input: string, options: { timeout: number; cwd?: string; signal?: AbortSignal }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    throwIfCancelled(options.signal);
+
+    const child = execFile('clang-format', args, {
+      encoding: 'utf-8',
+      timeout: options.timeout,
+      cwd: options.cwd,
+      signal: options.signal,
+      killSignal: 'SIGKILL',
+      maxBuffer: 64 * 1024 * 1024
+    }, (error, stdout) => {
+      if (options.signal?.aborted) {
+        reject(new Error("Operation cancelled"));
+      } else if (error) {
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
     });
-    return true;
-  } catch (error) {
-    return false;
-  }
+    // A process that exits before reading its input must not fail the run with EPIPE
+    child.stdin?.on('error', () => {});
+    child.stdin?.end(input);
+  });
 }
 
-export async function applyClangFormat(content: string): Promise<string> {
-  const isAvailable = checkClangFormatAvailability();
+export async function applyClangFormat(content: string, overrides: ClangFormatOverrides = {}, signal?: AbortSignal): Promise<string> {
+  const isAvailable = await checkClangFormatAvailability();
   if (!isAvailable) {
     throw new Error('clang-format is not available on this system');
   }
 
+  // A private directory per call: runs do not share the config, and the working tree stays untouched
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-mcp-clang-format-'));
+  const configPath = path.join(tempDir, '.clang-format');
   try {
-    const configString = generateClangFormatConfigString();
-    
-    const tempConfigPath = path.join(process.cwd(), '.clang-format-temp');
-    fs.writeFileSync(tempConfigPath, configString);
-    
-    try {
-      const formatted = execSync(`clang-format --style=file:.clang-format-temp`, {
-        input: content,
-        encoding: 'utf-8',
-        timeout: 10000,
-        cwd: process.cwd()
-      });
-      
-      return formatted;
-    } finally {
-      if (fs.existsSync(tempConfigPath)) {
-        fs.unlinkSync(tempConfigPath);
-      }
+    fs.writeFileSync(configPath, generateClangFormatConfigString(overrides));
+    return await runClangFormat([`--style=file:${configPath}`], content, { timeout: 10000, cwd: tempDir, signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
     }
-  } catch (error: any) {
-    throw new Error(`clang-format failed: ${error.message}`);
+    throw new Error(`clang-format failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
   }
 }
 
 
-export async function applyClangFormatWithFallback(content: string): Promise<{ formatted: string; usedClangFormat: boolean }> {
+export async function applyClangFormatWithFallback(
+  content: string,
+  overrides: ClangFormatOverrides = {},
+  signal?: AbortSignal
+): Promise<{ formatted: string; usedClangFormat: boolean }> {
   try {
-    const formatted = await applyClangFormat(content);
+    const formatted = await applyClangFormat(content, overrides, signal);
     return { formatted, usedClangFormat: true };
   } catch (error) {
+    // Cancellation ends the fix run instead of skipping the stage
+    if (signal?.aborted) {
+      throw error;
+    }
     console.warn('clang-format failed, no fallback available:', error instanceof Error ? error.message : String(error));
     return { formatted: content, usedClangFormat: false };
   }
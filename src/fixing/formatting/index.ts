@@ -1,7 +1,9 @@
 export {
   generateClangFormatConfigString,
   checkClangFormatAvailability,
+  getClangFormatVersion,
   applyClangFormat,
   applyClangFormatWithFallback
 } from "./clang-format.js";
+export type { ClangFormatOverrides } from "./clang-format.js";
 export * from "./token-based/index.js";
\ No newline at end of file
@@ -10,6 +10,11 @@ export interface TokenFormatterRule {
   apply(tokens: Token[], error: NorminetteError): Token[];
 }
 
+export interface TokenRuleApplication {
+  rule: string;
+  error: NorminetteError;
+}
+
 export class NorminetteFormatter {
   private rules: TokenFormatterRule[] = [];
 
@@ -23,21 +28,28 @@ export class NorminetteFormatter {
   }
 
   format(content: string, errors: NorminetteError[]): string {
+    return this.formatWithReport(content, errors).content;
+  }
+
+  // Same as format, but also reports which rule was applied for which error
+  formatWithReport(content: string, errors: NorminetteError[]): { content: string; applied: TokenRuleApplication[] } {
     // Step 1: Tokenize the input
     const lexer = new CLexer(content);
     let tokens = lexer.tokenize();
+    const applied: TokenRuleApplication[] = [];
 
     // Step 2: Apply formatting rules to tokens
     for (const rule of this.rules) {
       for (const error of errors) {
         if (rule.errorCodes.includes(error.error_code) && rule.canFix(tokens, error)) {
           tokens = rule.apply(tokens, error);
+          applied.push({ rule: rule.name, error });
         }
       }
     }
 
     // Step 3: Reconstruct source code from tokens
-    return this.reconstructSource(tokens);
+    return { content: this.reconstructSource(tokens), applied };
   }
 
   private reconstructSource(tokens: Token[]): string {
@@ -1,3 +1,3 @@
 export { NorminetteFormatter } from "./formatter.js";
 export { defaultFormattingRules } from "./rules.js";
-export type { TokenFormatterRule } from "./formatter.js";
\ No newline at end of file
+export type { TokenFormatterRule, TokenRuleApplication } from "./formatter.js";
\ No newline at end of file
@@ -1,3 +1,11 @@
-export { fixNorminetteErrors } from "./pipeline.js";
+export { fixNorminetteErrors, fixContent, DEFAULT_MAX_PASSES } from "./pipeline.js";
+export { CLANG_FORMAT_FIXER, fixStages, getAvailableFixers, resolveFixSelection } from "./selection.js";
+export type { FixSelection, FixSelectionOptions } from "./selection.js";
+export { compareErrors, mapErrorLines, intersectErrors } from "./attribution.js";
+export { iterateFixPasses, assertMaxPasses } from "./convergence.js";
+export type { FixState, PassAttempt, ConvergenceOptions, ConvergenceOutcome } from "./convergence.js";
+export type { FixOptions, ContentFixOptions } from "./pipeline.js";
+export { createFixSession, recordFileChange, listFixSessions, undoFixSession, getJournalDir } from "./journal.js";
+export type { FixSession, JournalFileEntry, UndoResult } from "./journal.js";
 export * from "./structural/index.js";
 export * from "./formatting/index.js";
\ No newline at end of file
@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as crypto from "crypto";
+import { hashContent } from "../core/file-utils.js";
+import { AllowedRoots, assertPathAllowed } from "../core/sandbox.js";
+
+/**
+ * A single file rewritten by a fix run
+ */
+export interface JournalFileEntry {
+  path: string;
+  original_content: string;
+  original_hash: string;
+  fixed_hash: string;
+}
+
+/**
+ * Everything needed to roll back one norminette_fix run
+ */
+export interface FixSession {
+  id: string;
+  timestamp: string;
+  target: string;
+  files: JournalFileEntry[];
+  undone_at?: string;
+}
+
+export interface UndoResult {
+  session_id: string;
+  target: string;
+  restored_files: string[];
+}
+
+/**
+ * Directory holding one JSON file per fix session.
+ * Defaults to ~/.norminette-mcp/journal, overridable via $NORMINETTE_MCP_JOURNAL_DIR
+ */
+export function getJournalDir(): string {
+  return process.env.NORMINETTE_MCP_JOURNAL_DIR || path.join(os.homedir(), '.norminette-mcp', 'journal');
+}
+
+function sessionPath(id: string): string {
+  // Ids come from tool arguments; never let one name a file outside the journal
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid fix session id: ${id}`);
+  }
+  return path.join(getJournalDir(), `${id}.json`);
+}
+
+function writeSession(session: FixSession): void {
+  fs.mkdirSync(getJournalDir(), { recursive: true });
+  fs.writeFileSync(sessionPath(session.id), JSON.stringify(session, null, 2));
+}
+
+/**
+ * Start a new session. Nothing is persisted until the first file change is recorded,
+ * so runs that change nothing leave no trace in the journal.
+ */
+export function createFixSession(target: string): FixSession {
+  const now = new Date();
+  // Sortable ids: ISO timestamp without separators plus a random suffix
+  const stamp = now.toISOString().replace(/[-:.]/g, '').replace('Z', '');
+  return {
+    id: `${stamp}-${crypto.randomBytes(3).toString('hex')}`,
+    timestamp: now.toISOString(),
+    target: path.resolve(target),
+    files: []
+  };
+}
+
+/**
+ * Record a file change in the session journal.
+ * Must be called before the fixed content is written so an interrupted run can still be undone.
+ */
+export function recordFileChange(session: FixSession, filePath: string, original: string, fixed: string): void {
+  session.files.push({
+    path: path.resolve(filePath),
+    original_content: original,
+    original_hash: hashContent(original),
+    fixed_hash: hashContent(fixed)
+  });
+  writeSession(session);
+}
+
+/**
+ * List recorded sessions, most recent first
+ */
+export function listFixSessions(): FixSession[] {
+  const dir = getJournalDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .reverse()
+    .map(name => JSON.parse(fs.readFileSync(path.join(dir, name), 'utf-8')) as FixSession);
+}
+
+/**
+ * Restore every file touched by a session (or the most recent session not yet undone).
+ * Refuses without touching anything if any file was modified after the fix was applied
+ * or lies outside the allowed roots.
+ */
+export function undoFixSession(sessionId?: string, allowedRoots: AllowedRoots = null): UndoResult {
+  let session: FixSession | undefined;
+
+  if (sessionId) {
+    if (!fs.existsSync(sessionPath(sessionId))) {
+      throw new Error(`Unknown fix session: ${sessionId}`);
+    }
+    session = JSON.parse(fs.readFileSync(sessionPath(sessionId), 'utf-8')) as FixSession;
+    if (session.undone_at) {
+      throw new Error(`Fix session ${sessionId} was already undone at ${session.undone_at}`);
+    }
+  } else {
+    session = listFixSessions().find(s => !s.undone_at);
+    if (!session) {
+      throw new Error('No fix session to undo');
+    }
+  }
+
+  for (const entry of session.files) {
+    assertPathAllowed(entry.path, allowedRoots);
+  }
+
+  const modified = session.files.filter(entry =>
+    !fs.existsSync(entry.path) ||
+    hashContent(fs.readFileSync(entry.path, 'utf-8')) !== entry.fixed_hash
+  );
+  if (modified.length > 0) {
+    throw new Error(
+      `Refusing to undo fix session ${session.id}: files changed since the fix was applied: ` +
+      modified.map(entry => entry.path).join(', ')
+    );
+  }
+
+  for (const entry of session.files) {
+    fs.writeFileSync(entry.path, entry.original_content);
+  }
+
+  session.undone_at = new Date().toISOString();
+  writeSession(session);
+
+  return {
+    session_id: session.id,
+    target: session.target,
+    restored_files: session.files.map(entry => entry.path)
+  };
+}
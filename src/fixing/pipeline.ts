@@ -1,21 +1,194 @@
 import * as fs from "fs";
-import { runNorminette } from "../core/norminette.js";
+import * as path from "path";
+import { checkPath, runNorminette, runNorminetteOnContent } from "../core/norminette.js";
+import { changedLineRange, createUnifiedDiff, remapLineSet, restrictChanges } from "../core/diff.js";
+import { ChangedLines, getFileChanges } from "../core/git.js";
 import { applyClangFormatWithFallback } from "./formatting/clang-format.js";
 import { NorminetteFormatter } from "./formatting/token-based/formatter.js";
-import { defaultFormattingRules } from "./formatting/token-based/rules.js";
-import { getAllCFiles } from "../core/file-utils.js";
-import { FixResult } from "../types.js";
+import { isCSourceFile, resolveTargetFiles } from "../core/file-utils.js";
+import {
+  AppliedFix,
+  ContentFixResult,
+  FixPass,
+  FilePreview,
+  FileFixReport,
+  FixResult,
+  FixStage,
+  FixStopReason,
+  IntroducedError,
+  LineRange,
+  NorminetteError,
+  NorminetteFailure,
+  NorminetteResult
+} from "../types.js";
 import { applyStructuralFixes } from "./structural/structural-fixes.js";
+import { createFixSession, recordFileChange, FixSession } from "./journal.js";
+import { compareErrors, intersectErrors, mapErrorLines } from "./attribution.js";
+import { assertMaxPasses, iterateFixPasses } from "./convergence.js";
+import { CLANG_FORMAT_FIXER, FixSelection, FixSelectionOptions, resolveFixSelection } from "./selection.js";
+import { StructuralFixContext } from "./structural/structural-fixes.js";
+import { ClangFormatOverrides } from "./formatting/clang-format.js";
+import { NorminetteRunOptions } from "../core/norminette.js";
+import { AllowedRoots } from "../core/sandbox.js";
+import { DiagnosticsStore } from "../core/diagnostics-store.js";
+import { DEFAULT_CONCURRENCY, ProgressSink, mapConcurrent } from "../core/concurrency.js";
+import { LoadedConfig, fileListOptions, loadConfig, norminetteRunOptions } from "../config/project-config.js";
 
-const formatter = new NorminetteFormatter();
+/** Upper bound on check -> fix iterations per file when FixOptions.maxPasses is not set */
+export const DEFAULT_MAX_PASSES = 5;
 
-// Initialize formatter with default rules
-for (const rule of defaultFormattingRules) {
-  formatter.addRule(rule);
+export interface FixOptions extends FixSelectionOptions {
+  /** Run the whole pipeline in memory and report diffs instead of writing files */
+  dryRun?: boolean;
+  /** Maximum number of check -> fix passes per file */
+  maxPasses?: number;
+  /** Only fix lines changed since this git revision, or "staged" for the staged changes */
+  since?: string;
+  /** Project configuration; discovered from the target path when omitted */
+  config?: LoadedConfig;
+  /** Files resolving outside these roots are skipped; null or omitted allows everything */
+  allowedRoots?: AllowedRoots;
+  /** Cancels the run: running norminette processes are killed and no further file is started */
+  signal?: AbortSignal;
+  /** Records the checks of files on disk, including the final ones after fixing */
+  diagnostics?: DiagnosticsStore;
+  /** Told after each file is checked or fixed */
+  onProgress?: ProgressSink;
 }
 
-export async function fixNorminetteErrors(targetPath: string): Promise<FixResult> {
-  const norminetteResult = await runNorminette(targetPath);
+/**
+ * Settings shared by every file of one fix run
+ */
+interface FixRun {
+  options: FixOptions;
+  selection: FixSelection;
+  /** Journal session recording file writes; null when fixing in-memory content */
+  session: FixSession | null;
+  formatter: NorminetteFormatter;
+  norminette: NorminetteRunOptions;
+  structural: StructuralFixContext;
+  clangFormat: ClangFormatOverrides;
+}
+
+/**
+ * What fixing one file produced, merged into the FixResult in file order
+ */
+interface FileFixOutcome {
+  report?: FileFixReport;
+  preview?: FilePreview;
+  /** Errors left in the content after fixing (within the git scope), whether or not it was written */
+  errors: NorminetteError[];
+  timedOut?: boolean;
+  /** Why the file was left untouched: norminette could not tokenize, parse or check it */
+  failures?: NorminetteFailure[];
+}
+
+/** Thrown inside a file's fix loop when a norminette check of it times out */
+class CheckTimeoutError extends Error {}
+
+async function checkFileContent(content: string | null, filePath: string, run: FixRun): Promise<NorminetteResult> {
+  const result = content === null
+    ? await runNorminette(filePath, run.norminette)
+    : await runNorminetteOnContent(content, filePath, run.norminette);
+  if (result.timed_out) {
+    throw new CheckTimeoutError(`norminette timed out on ${filePath}`);
+  }
+  return result;
+}
+
+/**
+ * Failures that make the reported errors meaningless: a file norminette could not
+ * tokenize or parse, or a crash. Unrecognized extra output does not count.
+ */
+function blockingFailures(result: NorminetteResult): NorminetteFailure[] {
+  return (result.failures ?? []).filter(failure => failure.kind !== "unrecognized_output");
+}
+
+function failureAsError(failure: NorminetteFailure, filePath: string): NorminetteError {
+  const code = failure.kind.toUpperCase();
+  return {
+    file: filePath,
+    line: failure.line ?? 1,
+    column: failure.column ?? 1,
+    error_type: code,
+    error_code: code,
+    description: failure.message
+  };
+}
+
+/**
+ * Lines a fix may touch, in the coordinates of the current content; null allows the whole file
+ */
+type FixScope = Set<number> | null;
+
+function inScope(errors: NorminetteError[], scope: FixScope): NorminetteError[] {
+  return scope ? errors.filter(error => scope.has(error.line)) : errors;
+}
+
+function scopeFromChanges(changes: ChangedLines, filePath: string): FixScope {
+  const ranges = getFileChanges(changes, filePath);
+  if (!ranges) {
+    return null;
+  }
+
+  const lines = new Set<number>();
+  for (const range of ranges) {
+    for (let line = range.start; line <= range.end; line++) {
+      lines.add(line);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Resolve the settings shared by every file of a run; explicit options win over the project configuration
+ */
+function createFixRun(loaded: LoadedConfig, options: FixOptions, session: FixSession | null, createdAt?: Date): FixRun {
+  const config = loaded.config;
+  const selection = resolveFixSelection({
+    includeCodes: options.includeCodes ?? config.fixers?.include_codes,
+    excludeCodes: options.excludeCodes ?? config.fixers?.exclude_codes,
+    includeFixers: options.includeFixers ?? config.fixers?.include,
+    excludeFixers: options.excludeFixers ?? config.fixers?.exclude,
+    stages: options.stages ?? config.fixers?.stages
+  });
+
+  const formatter = new NorminetteFormatter();
+  for (const rule of selection.formattingRules) {
+    formatter.addRule(rule);
+  }
+
+  return {
+    options,
+    selection,
+    session,
+    formatter,
+    norminette: { ...norminetteRunOptions(loaded), signal: options.signal, diagnostics: options.diagnostics },
+    structural: { header: config.header, createdAt },
+    clangFormat: config.clang_format ?? {}
+  };
+}
+
+export async function fixNorminetteErrors(targetPath: string, options: FixOptions = {}): Promise<FixResult> {
+  assertMaxPasses(options.maxPasses);
+  const loaded = options.config ?? loadConfig(targetPath);
+  const run = createFixRun(loaded, options, createFixSession(targetPath));
+  const norminetteOptions = run.norminette;
+
+  // The checks and the fixer share one file list, so both agree on what is in scope
+  const fileList = { ...fileListOptions(loaded), allowedRoots: options.allowedRoots };
+  const target = resolveTargetFiles(targetPath, options.since, fileList);
+
+  // Every file is checked, fixed and checked again (not in a dry run): one progress step each
+  const total = target.files.length * (options.dryRun ? 2 : 3);
+  const report = (progress: number, message: string) => options.onProgress?.({ progress, total, message });
+  const check = (offset: number) => checkPath(targetPath, {
+    ...norminetteOptions,
+    since: options.since,
+    fileList,
+    onProgress: progress => report(offset + progress.progress, progress.message)
+  });
+  const norminetteResult = await check(0);
   const fixResults: FixResult = {
     original_errors: norminetteResult.errors.length,
     fixes_applied: [],
@@ -23,66 +196,414 @@ export async function fixNorminetteErrors(targetPath: string): Promise<FixResult
     final_error_count: 0,
     status: "completed"
   };
+  if (target.skipped.length > 0) {
+    fixResults.skipped = target.skipped;
+  }
+
+  if (options.dryRun) {
+    fixResults.dry_run = true;
+    fixResults.previews = [];
+  }
+
+  // Files are independent, so several are fixed at once; results are merged in file order.
+  // Files that already timed out in the initial check are not retried.
+  const timedOut = new Set(norminetteResult.timed_out ?? []);
+  const files = target.files.filter(file => !timedOut.has(file));
+  // Filled as files finish, so an interrupted run can still report what it completed
+  const outcomes: (FileFixOutcome | undefined)[] = new Array(files.length);
+  let filesFixed = 0;
+  let errorsFixed = 0;
+  let interruption: unknown = null;
+  try {
+    await mapConcurrent(files, norminetteOptions.concurrency ?? DEFAULT_CONCURRENCY, async (file, index) => {
+      // With `since`, only the changed lines of each changed file are in scope
+      const scope = target.changes ? scopeFromChanges(target.changes, file) : null;
+      const outcome = await fixFileErrors(file, run, scope);
+      outcomes[index] = outcome;
+      filesFixed++;
+      const fixedInFile = (outcome.report?.fixes ?? []).reduce((sum, fix) => sum + fix.eliminated_errors.length, 0);
+      errorsFixed += fixedInFile;
+      // An MCP client gets no response to a request it cancels, so each message carries what
+      // the file's result holds: what was fixed, what is left and the session that undoes it
+      const undo = run.session!.files.length > 0 ? `, undo with session ${run.session!.id}` : "";
+      const left = outcome.timedOut ? "its check timed out" : `${outcome.errors.length} left`;
+      report(target.files.length + filesFixed, `Fixed ${file} (${filesFixed}/${files.length}): ${fixedInFile} errors fixed, ${left}; ${errorsFixed} errors fixed so far${undo}`);
+    }, options.signal);
+  } catch (error) {
+    interruption = error;
+  }
+
+  const unfinished: string[] = [];
+  files.forEach((file, index) => {
+    const outcome = outcomes[index];
+    if (!outcome) {
+      unfinished.push(file);
+      return;
+    }
+    if (outcome.timedOut) {
+      timedOut.add(file);
+    }
+    if (outcome.failures) {
+      (fixResults.failures ??= []).push(...outcome.failures);
+    }
+    if (outcome.report) {
+      fixResults.fixes_applied.push(outcome.report);
+    }
+    if (outcome.preview) {
+      fixResults.previews!.push(outcome.preview);
+    }
+    // In a dry run nothing was written, so the errors left in memory are the final state
+    if (options.dryRun) {
+      fixResults.remaining_errors.push(...outcome.errors);
+      fixResults.final_error_count += outcome.errors.length;
+    }
+  });
+
+  if (run.session!.files.length > 0) {
+    fixResults.session_id = run.session!.id;
+  }
 
-  if (fs.statSync(targetPath).isDirectory()) {
-    const files = getAllCFiles(targetPath);
-    for (const file of files) {
-      await fixFileErrors(file, fixResults);
+  if (!options.dryRun && !interruption) {
+    try {
+      const finalResult = await check(target.files.length * 2);
+      fixResults.remaining_errors = finalResult.errors;
+      fixResults.final_error_count = finalResult.errors.length;
+      for (const file of finalResult.timed_out ?? []) {
+        timedOut.add(file);
+      }
+    } catch (error) {
+      interruption = error;
     }
-  } else if (targetPath.endsWith('.c') || targetPath.endsWith('.h')) {
-    await fixFileErrors(targetPath, fixResults);
   }
 
-  const finalResult = await runNorminette(targetPath);
-  fixResults.remaining_errors = finalResult.errors;
-  fixResults.final_error_count = finalResult.errors.length;
+  if (interruption) {
+    // Files are not re-checked: finished ones keep the errors left after fixing them, the
+    // unfinished ones (and those whose check timed out) still have their initial errors
+    const initialErrors = (file: string) => norminetteResult.errors.filter(error => error.file === file);
+    fixResults.status = options.signal?.aborted ? "cancelled" : "failed";
+    fixResults.error = interruption instanceof Error ? interruption.message : String(interruption);
+    fixResults.unfinished = unfinished;
+    fixResults.remaining_errors = files.flatMap((file, index) => {
+      const outcome = outcomes[index];
+      return outcome && !outcome.timedOut ? outcome.errors : initialErrors(file);
+    });
+    fixResults.final_error_count = fixResults.remaining_errors.length;
+  }
 
+  if (timedOut.size > 0) {
+    fixResults.timed_out = [...timedOut];
+  }
+
+  norminetteOptions.cache?.flush();
   return fixResults;
 }
 
-async function fixFileErrors(filePath: string, fixResults: FixResult): Promise<void> {
-  let content = fs.readFileSync(filePath, 'utf-8');
-  const originalContent = content;
-  const fixes: string[] = [];
+export interface ContentFixOptions extends FixSelectionOptions {
+  /** Maximum number of check -> fix passes */
+  maxPasses?: number;
+  /** Project configuration; defaults apply when omitted */
+  config?: LoadedConfig;
+  /** Creation date written into a generated 42 header (default: now) */
+  createdAt?: Date;
+  signal?: AbortSignal;
+}
 
-  // Stage 1: Apply structural fixes (e.g., 42 header)
-  const initialErrors = await runNorminette(filePath);
-  if (initialErrors.errors.length > 0) {
-    const structuralResult = await applyStructuralFixes(content, filePath, initialErrors.errors);
-    if (structuralResult.content !== content) {
-      content = structuralResult.content;
-      fixes.push(...structuralResult.applied.map(fix => `Applied ${fix}`));
+/**
+ * Fix C source text held in memory, e.g. an editor buffer, under a virtual filename ending in
+ * .c or .h. Runs the same structural -> clang-format -> token-formatter passes as
+ * fixNorminetteErrors, checking intermediate content in a temp directory, and never reads
+ * or writes the file the name refers to.
+ */
+export async function fixContent(
+  content: string,
+  filename: string,
+  options: ContentFixOptions = {}
+): Promise<ContentFixResult> {
+  if (!isCSourceFile(filename)) {
+    throw new Error(`Virtual filename must end in .c or .h: ${filename}`);
+  }
+  assertMaxPasses(options.maxPasses);
+
+  const loaded = options.config ?? { path: null, root: path.dirname(filename), config: {} };
+  const run = createFixRun(loaded, options, null, options.createdAt ?? new Date());
+
+  const initial = await checkFileContent(content, filename, run);
+  const failures = blockingFailures(initial);
+  if (failures.length > 0) {
+    return {
+      filename,
+      content,
+      changed: false,
+      diff: '',
+      original_error_count: initial.errors.length,
+      fixes: [],
+      unresolved_errors: [],
+      introduced_errors: [],
+      remaining_errors: initial.errors,
+      passes: [],
+      stop_reason: "no_changes",
+      failures
+    };
+  }
+
+  const loop = await runFixLoop(content, filename, initial.errors, run, null);
+  run.norminette.cache?.flush();
+  const acceptedPasses = loop.passes.filter(pass => pass.accepted);
+  return {
+    filename,
+    content: loop.content,
+    changed: loop.content !== content,
+    diff: createUnifiedDiff(content, loop.content, filename),
+    original_error_count: initial.errors.length,
+    fixes: acceptedPasses.flatMap(pass => pass.fixes),
+    unresolved_errors: loop.unresolved,
+    introduced_errors: acceptedPasses.flatMap(pass => pass.introduced_errors),
+    remaining_errors: loop.errors,
+    passes: loop.passes,
+    stop_reason: loop.stopReason
+  };
+}
+
+/**
+ * Fix one file. A file whose check times out is left untouched and reported as timed out.
+ */
+async function fixFileErrors(filePath: string, run: FixRun, scope: FixScope): Promise<FileFixOutcome> {
+  try {
+    return await fixFileContent(filePath, run, scope);
+  } catch (error) {
+    if (error instanceof CheckTimeoutError) {
+      return { timedOut: true, errors: [] };
     }
+    throw error;
+  }
+}
+
+async function fixFileContent(filePath: string, run: FixRun, scope: FixScope): Promise<FileFixOutcome> {
+  const { options, session } = run;
+  const originalContent = fs.readFileSync(filePath, 'utf-8');
+
+  const initial = await checkFileContent(null, filePath, run);
+  const failures = blockingFailures(initial);
+  if (failures.length > 0) {
+    // Without a trustworthy error list there is nothing to measure fixes against
+    return {
+      failures: failures.map(failure => ({ ...failure, file: failure.file ?? filePath })),
+      errors: inScope(initial.errors, scope)
+    };
+  }
+  const loop = await runFixLoop(originalContent, filePath, initial.errors, run, scope);
+  const { content, errors, passes } = loop;
+  scope = loop.scope;
+
+  // With a git scope, only errors on changed lines count, like in the final check
+  const outcome: FileFixOutcome = { errors: inScope(errors, scope) };
+  if (options.dryRun && content !== originalContent) {
+    outcome.preview = {
+      file: filePath,
+      diff: createUnifiedDiff(originalContent, content, filePath),
+      remaining_errors: outcome.errors
+    };
+  }
+
+  if (content !== originalContent) {
+    if (!options.dryRun) {
+      recordFileChange(session!, filePath, originalContent, content);
+      fs.writeFileSync(filePath, content);
+    }
+    const acceptedPasses = passes.filter(pass => pass.accepted);
+    outcome.report = {
+      file: filePath,
+      fixes: acceptedPasses.flatMap(pass => pass.fixes),
+      unresolved_errors: loop.unresolved,
+      introduced_errors: acceptedPasses.flatMap(pass => pass.introduced_errors),
+      passes,
+      stop_reason: loop.stopReason
+    };
+  }
+
+  return outcome;
+}
+
+interface FixLoopOutcome {
+  content: string;
+  /** Errors in the final content */
+  errors: NorminetteError[];
+  passes: FixPass[];
+  stopReason: FixStopReason;
+  /** Remaining errors that some fixer tried and failed to eliminate */
+  unresolved: NorminetteError[];
+  scope: FixScope;
+}
+
+/**
+ * Iterate check -> fix over in-memory content until the targetable errors stop shrinking
+ */
+async function runFixLoop(
+  originalContent: string,
+  filePath: string,
+  initialErrors: NorminetteError[],
+  run: FixRun,
+  scope: FixScope
+): Promise<FixLoopOutcome> {
+  const { options, selection } = run;
+  const initial: PassOutcome = { content: originalContent, errors: initialErrors, fixes: [], introduced: [], unresolved: [], scope };
+
+  const loop = await iterateFixPasses(
+    initial,
+    (state, pass) => runFixPass(state.content, filePath, state.errors, pass, run, state.scope),
+    {
+      maxPasses: options.maxPasses ?? DEFAULT_MAX_PASSES,
+      // Progress is measured on the errors the selection and scope allow us to fix
+      targetable: state => state.errors.filter(error => isTargetable(error, selection, state.scope)).length,
+      signal: options.signal
+    }
+  );
+
+  const passes: FixPass[] = loop.attempts.map(attempt => ({
+    pass: attempt.pass,
+    errors_before: attempt.before.errors.length,
+    errors_after: attempt.after.errors.length,
+    fixes: attempt.after.fixes,
+    introduced_errors: attempt.after.introduced,
+    accepted: attempt.accepted
+  }));
+
+  // Errors some fixer tried and failed to eliminate, followed into the final content
+  let attempted: NorminetteError[] = [];
+  for (const attempt of loop.attempts.filter(attempt => attempt.accepted)) {
+    attempted = [...mapErrorLines(attempted, attempt.before.content, attempt.after.content), ...attempt.after.unresolved];
+  }
+
+  return {
+    content: loop.state.content,
+    errors: loop.state.errors,
+    passes,
+    stopReason: loop.stopReason,
+    unresolved: intersectErrors(loop.state.errors, attempted),
+    scope: loop.state.scope
+  };
+}
+
+interface PassOutcome {
+  content: string;
+  errors: NorminetteError[];
+  fixes: AppliedFix[];
+  introduced: IntroducedError[];
+  /** Errors a fixer targeted but did not eliminate, in the coordinates of the pass output */
+  unresolved: NorminetteError[];
+  scope: FixScope;
+}
+
+function isTargetable(error: NorminetteError, selection: FixSelection, scope: FixScope): boolean {
+  return selection.isErrorSelected(error) && (scope === null || scope.has(error.line));
+}
+
+/**
+ * Run the structural -> clang-format -> token-formatter stages once over in-memory content.
+ * Norminette is re-run after every stage that changed the content, so each fix can be
+ * credited with the errors it actually eliminated.
+ */
+async function runFixPass(
+  content: string,
+  filePath: string,
+  errors: NorminetteError[],
+  pass: number,
+  run: FixRun,
+  scope: FixScope
+): Promise<PassOutcome> {
+  const { selection, formatter } = run;
+  const fixes: AppliedFix[] = [];
+  const introduced: IntroducedError[] = [];
+  const attempts: { input: string; errors: NorminetteError[] }[] = [];
+  let currentErrors = errors;
+
+  const completeStage = async (stage: FixStage, output: string, stageFixes: AppliedFix[]) => {
+    const checked = await checkFileContent(output, filePath, run);
+    const failures = blockingFailures(checked);
+    if (failures.length > 0) {
+      // Output norminette cannot parse hides every other error, so the stage is discarded
+      introduced.push(...failures.map(failure => ({ stage, pass, error: failureAsError(failure, filePath) })));
+      return;
+    }
+    const after = checked.errors;
+    const comparison = compareErrors(currentErrors, after, content, output);
+    const eliminated = new Set(comparison.eliminated);
+
+    for (const fix of stageFixes) {
+      fix.eliminated_errors = fix.targeted_errors.filter(error => eliminated.has(error));
+      fixes.push(fix);
+    }
+    if (stage !== "clang-format") {
+      attempts.push({
+        input: content,
+        errors: stageFixes.flatMap(fix => fix.targeted_errors).filter(error => !eliminated.has(error))
+      });
+    }
+    introduced.push(...comparison.introduced.map(error => ({ stage, pass, error })));
+
+    if (scope) {
+      scope = remapLineSet(scope, content, output);
+    }
+    content = output;
+    currentErrors = after;
+  };
+  const targetable = () => currentErrors.filter(error => isTargetable(error, selection, scope));
+
+  const newFix = (fixer: string, stage: FixStage, lineRange: LineRange | null, targeted: NorminetteError[]): AppliedFix => ({
+    fixer,
+    stage,
+    file: filePath,
+    pass,
+    line_range: lineRange,
+    targeted_errors: targeted,
+    eliminated_errors: []
+  });
+
+  // Stage 1: Apply structural fixes (e.g., 42 header)
+  const structuralResult = await applyStructuralFixes(
+    content,
+    filePath,
+    targetable(),
+    selection.structuralFixers,
+    run.structural
+  );
+  if (structuralResult.content !== content) {
+    await completeStage("structural", structuralResult.content, structuralResult.fixes.map(fix =>
+      newFix(fix.fixer, "structural", fix.line_range, [fix.error])
+    ));
   }
 
   // Stage 2: Apply clang-format
-  const formatResult = await applyClangFormatWithFallback(content);
-  if (formatResult.formatted !== content) {
-    content = formatResult.formatted;
-    if (formatResult.usedClangFormat) {
-      fixes.push("Applied clang-format for 42 School compliance");
-    } else {
-      fixes.push("Applied fallback whitespace fixes");
+  // clang-format rewrites the whole file, so it is credited against every selected error present before it ran
+  if (selection.runClangFormat) {
+    const formatResult = await applyClangFormatWithFallback(content, run.clangFormat, run.options.signal);
+    // With a git scope, only the reformatted blocks that overlap changed lines are kept
+    const formatted = scope ? restrictChanges(content, formatResult.formatted, scope) : formatResult.formatted;
+    if (formatted !== content) {
+      await completeStage("clang-format", formatted, [
+        newFix(CLANG_FORMAT_FIXER, "clang-format", changedLineRange(content, formatted), targetable())
+      ]);
     }
   }
 
   // Stage 3: Apply norminette-specific formatter
-  // Write intermediate content to get accurate norminette errors
-  fs.writeFileSync(filePath, content);
-  const errors = await runNorminette(filePath);
-  if (errors.errors.length > 0) {
-    const formattedContent = formatter.format(content, errors.errors);
-    if (formattedContent !== content) {
-      content = formattedContent;
-      fixes.push("Applied norminette-specific formatting rules");
+  const selectedErrors = targetable();
+  if (selectedErrors.length > 0) {
+    const formatReport = formatter.formatWithReport(content, selectedErrors);
+    if (formatReport.content !== content) {
+      // Token rules only rewrite whitespace on the error line
+      await completeStage("token-formatter", formatReport.content, formatReport.applied.map(application =>
+        newFix(application.rule, "token-formatter", { start: application.error.line, end: application.error.line }, [application.error])
+      ));
     }
   }
 
-  if (content !== originalContent) {
-    fs.writeFileSync(filePath, content);
-    fixResults.fixes_applied.push({
-      file: filePath,
-      fixes: fixes
-    });
-  }
-}
\ No newline at end of file
+  return {
+    content,
+    errors: currentErrors,
+    fixes,
+    introduced,
+    unresolved: attempts.flatMap(attempt => mapErrorLines(attempt.errors, attempt.input, content)),
+    scope
+  };
+}
@@ -0,0 +1,75 @@
+import { FixStage, NorminetteError } from "../types.js";
+import { StructuralFixer, structuralFixers } from "./structural/structural-fixes.js";
+import { TokenFormatterRule } from "./formatting/token-based/formatter.js";
+import { defaultFormattingRules } from "./formatting/token-based/rules.js";
+
+/** Fixer name reported for the clang-format stage */
+export const CLANG_FORMAT_FIXER = "CLANG_FORMAT";
+
+export const fixStages: FixStage[] = ["structural", "clang-format", "token-formatter"];
+
+/**
+ * Which errors, fixers and stages a fix run may use.
+ * Fixers are named by StructuralFixer.name, TokenFormatterRule.name or CLANG_FORMAT_FIXER.
+ */
+export interface FixSelectionOptions {
+  includeCodes?: string[];
+  excludeCodes?: string[];
+  includeFixers?: string[];
+  excludeFixers?: string[];
+  /** Stages to run; defaults to all of them */
+  stages?: FixStage[];
+}
+
+export interface FixSelection {
+  isErrorSelected(error: NorminetteError): boolean;
+  structuralFixers: StructuralFixer[];
+  formattingRules: TokenFormatterRule[];
+  runClangFormat: boolean;
+}
+
+/**
+ * Names of every fixer that can be selected
+ */
+export function getAvailableFixers(): string[] {
+  return [
+    ...structuralFixers.map(fixer => fixer.name),
+    CLANG_FORMAT_FIXER,
+    ...defaultFormattingRules.map(rule => rule.name)
+  ];
+}
+
+/**
+ * Validate selection options and resolve them into the concrete fixers to run
+ */
+export function resolveFixSelection(options: FixSelectionOptions = {}): FixSelection {
+  const available = getAvailableFixers();
+  for (const name of [...(options.includeFixers ?? []), ...(options.excludeFixers ?? [])]) {
+    if (!available.includes(name)) {
+      throw new Error(`Unknown fixer: ${name}. Available fixers: ${available.join(', ')}`);
+    }
+  }
+  for (const stage of options.stages ?? []) {
+    if (!fixStages.includes(stage)) {
+      throw new Error(`Unknown fix stage: ${stage}. Available stages: ${fixStages.join(', ')}`);
+    }
+  }
+
+  const stages = options.stages ?? fixStages;
+  const isFixerSelected = (name: string) =>
+    (!options.includeFixers || options.includeFixers.includes(name)) &&
+    !(options.excludeFixers ?? []).includes(name);
+
+  return {
+    isErrorSelected: (error: NorminetteError) =>
+      (!options.includeCodes || options.includeCodes.includes(error.error_code)) &&
+      !(options.excludeCodes ?? []).includes(error.error_code),
+    structuralFixers: stages.includes("structural")
+      ? structuralFixers.filter(fixer => isFixerSelected(fixer.name))
+      : [],
+    formattingRules: stages.includes("token-formatter")
+      ? defaultFormattingRules.filter(rule => isFixerSelected(rule.name))
+      : [],
+    runClangFormat: stages.includes("clang-format") && isFixerSelected(CLANG_FORMAT_FIXER)
+  };
+}
@@ -1,5 +1,5 @@
 import path from 'path';
-import { getSystemInfo, getFileCreationTime } from './system-info.js';
+import { getSystemInfo, getFileCreationTime, formatDateTime, HeaderIdentity } from './system-info.js';
 
 /**
  * 42 Header structure with all required fields
@@ -67,17 +67,18 @@ function generateHeaderLines(header: Header42): string[] {
 }
 
 /**
- * Generate a 42 header for a given file
+ * Generate a 42 header for a given file.
+ * The creation date is createdAt when given, otherwise the file's birth time (or now for new files).
  */
-export async function generate42Header(filePath: string): Promise<string> {
+export async function generate42Header(filePath: string, identity: HeaderIdentity = {}, createdAt?: Date): Promise<string> {
   // Get system information
-  const systemInfo = await getSystemInfo();
+  const systemInfo = await getSystemInfo(identity);
   
   // Get filename
   const filename = path.basename(filePath);
   
   // Get file creation time (or current time for new files)
-  const createdDate = await getFileCreationTime(filePath);
+  const createdDate = createdAt ? formatDateTime(createdAt) : await getFileCreationTime(filePath);
   
   // Build header structure
   const header: Header42 = {
@@ -189,15 +190,20 @@ export function extractHeaderInfo(content: string): Header42 | null {
  * Update an existing 42 header with new information
  * Preserves creation info, updates the updated fields
  */
-export async function update42Header(content: string, filePath: string): Promise<string> {
+export async function update42Header(
+  content: string,
+  filePath: string,
+  identity: HeaderIdentity = {},
+  createdAt?: Date
+): Promise<string> {
   const existingHeader = extractHeaderInfo(content);
   if (!existingHeader) {
     // No valid header to update, generate new one
-    return generate42Header(filePath);
+    return generate42Header(filePath, identity, createdAt);
   }
   
   // Get current system info
-  const systemInfo = await getSystemInfo();
+  const systemInfo = await getSystemInfo(identity);
   
   // Update only the updated fields
   const updatedHeader: Header42 = {
@@ -1,4 +1,5 @@
 export { generate42Header, has42Header, update42Header, extractHeaderInfo } from "./header-fixer.js";
 export { getSystemInfo, getFileCreationTime } from "./system-info.js";
 export { applyStructuralFixes, structuralFixers } from "./structural-fixes.js";
-export type { StructuralFixer } from "./structural-fixes.js";
\ No newline at end of file
+export type { StructuralFixer, StructuralFixApplication, StructuralFixContext } from "./structural-fixes.js";
+export type { SystemInfo, HeaderIdentity } from "./system-info.js";
\ No newline at end of file
@@ -1,5 +1,7 @@
-import { NorminetteError } from '../../types.js';
+import { LineRange, NorminetteError } from '../../types.js';
+import { changedLineRange } from '../../core/diff.js';
 import { generate42Header, has42Header, update42Header } from './header-fixer.js';
+import { HeaderIdentity } from './system-info.js';
 
 /**
  * Interface for structural fixers that modify file structure/content
@@ -10,7 +12,25 @@ export interface StructuralFixer {
   errorCodes: string[];
   priority: number;
   canFix(error: NorminetteError, content: string, filePath: string): boolean;
-  apply(content: string, filePath: string, error: NorminetteError): Promise<string>;
+  apply(content: string, filePath: string, error: NorminetteError, context?: StructuralFixContext): Promise<string>;
+}
+
+/**
+ * Project-level settings available to structural fixers
+ */
+export interface StructuralFixContext {
+  header?: HeaderIdentity;
+  /** Creation date for generated headers; read from the file when omitted */
+  createdAt?: Date;
+}
+
+/**
+ * A single structural fixer application, with the lines it touched
+ */
+export interface StructuralFixApplication {
+  fixer: string;
+  error: NorminetteError;
+  line_range: LineRange | null;
 }
 
 /**
@@ -27,15 +47,15 @@ export const headerFixer: StructuralFixer = {
            (filePath.endsWith('.c') || filePath.endsWith('.h'));
   },
   
-  async apply(content: string, filePath: string, error: NorminetteError): Promise<string> {
+  async apply(content: string, filePath: string, error: NorminetteError, context: StructuralFixContext = {}): Promise<string> {
     // Check if file already has a 42 header (might be malformed)
     if (has42Header(content)) {
       // Update existing header
-      return update42Header(content, filePath);
+      return update42Header(content, filePath, context.header, context.createdAt);
     }
     
     // Generate new header
-    const header = await generate42Header(filePath);
+    const header = await generate42Header(filePath, context.header, context.createdAt);
     
     // Add header to the beginning of the file
     // If file starts with a comment, we need to be careful
@@ -77,13 +97,16 @@ export const structuralFixers: StructuralFixer[] = [
 export async function applyStructuralFixes(
   content: string, 
   filePath: string, 
-  errors: NorminetteError[]
-): Promise<{ content: string; applied: string[] }> {
+  errors: NorminetteError[],
+  fixers: StructuralFixer[] = structuralFixers,
+  context: StructuralFixContext = {}
+): Promise<{ content: string; applied: string[]; fixes: StructuralFixApplication[] }> {
   let result = content;
   const applied: string[] = [];
+  const fixes: StructuralFixApplication[] = [];
   
   // Sort fixers by priority
-  const sortedFixers = [...structuralFixers].sort((a, b) => a.priority - b.priority);
+  const sortedFixers = [...fixers].sort((a, b) => a.priority - b.priority);
   
   // Apply each fixer
   for (const fixer of sortedFixers) {
@@ -96,13 +119,15 @@ export async function applyStructuralFixes(
     // Apply fixes
     for (const error of fixableErrors) {
       try {
-        result = await fixer.apply(result, filePath, error);
+        const before = result;
+        result = await fixer.apply(result, filePath, error, context);
         applied.push(`${fixer.name}:${error.error_code}`);
+        fixes.push({ fixer: fixer.name, error, line_range: changedLineRange(before, result) });
       } catch (e) {
         console.error(`Failed to apply ${fixer.name} for ${error.error_code}:`, e);
       }
     }
   }
   
-  return { content: result, applied };
+  return { content: result, applied, fixes };
 }
\ No newline at end of file
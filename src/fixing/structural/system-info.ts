@@ -6,6 +6,14 @@ export interface SystemInfo {
   currentTime: string;
 }
 
+/**
+ * Header identity overrides, e.g. from the project configuration file
+ */
+export interface HeaderIdentity {
+  login?: string;
+  email?: string;
+}
+
 /**
  * Get the current system username
  * First tries $USER environment variable, then falls back to whoami command
@@ -43,10 +51,10 @@ function getEmail(username: string): string {
 }
 
 /**
- * Format current date/time in 42 header format
+ * Format a date/time in 42 header format
  * Format: YYYY/MM/DD HH:MM:SS
  */
-function formatDateTime(date: Date): string {
+export function formatDateTime(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const day = String(date.getDate()).padStart(2, '0');
@@ -59,10 +67,11 @@ function formatDateTime(date: Date): string {
 
 /**
  * Get all system information needed for 42 header generation
+ * Values from identity take precedence over $USER/$MAIL
  */
-export async function getSystemInfo(): Promise<SystemInfo> {
-  const username = getUsername();
-  const email = getEmail(username);
+export async function getSystemInfo(identity: HeaderIdentity = {}): Promise<SystemInfo> {
+  const username = identity.login || getUsername();
+  const email = identity.email || getEmail(username);
   const currentTime = formatDateTime(new Date());
 
   return {
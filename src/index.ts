@@ -1,18 +1,77 @@
 #!/usr/bin/env node
 
-import { startMCPServer } from "./mcp/server.js";
+import * as fs from "fs";
+import { fileURLToPath } from "url";
+import { parseServerArgs, startMCPServer } from "./mcp/server.js";
 
 // Re-export all public APIs
 export * from "./core/index.js";
 export * from "./fixing/index.js";
 export * from "./lexer/index.js";
-export type { NorminetteError, NorminetteResult, FixResult } from "./types.js";
+export * from "./config/index.js";
+export * from "./reporting/index.js";
+export { createMCPServer, parseServerArgs } from "./mcp/server.js";
+export type { ServerOptions } from "./mcp/server.js";
+export {
+  readResource,
+  listResources,
+  fileResourceUri,
+  resourceFilePath,
+  isKnownResourceUri,
+  PROJECT_SUMMARY_URI
+} from "./mcp/resources.js";
+export type { ResourceContext } from "./mcp/resources.js";
+export { getPrompt, promptDefinitions, findFunctions, functionsToSplit } from "./mcp/prompts.js";
+export type { PromptContext, SourceFunction } from "./mcp/prompts.js";
+export { startHttpServer, DEFAULT_HTTP_PORT, DEFAULT_HTTP_HOST, HTTP_TOKEN_ENV } from "./mcp/http.js";
+export type { HttpServerOptions, HttpServerHandle } from "./mcp/http.js";
+export type {
+  NorminetteError,
+  NorminetteResult,
+  NorminetteFailure,
+  NorminetteFailureKind,
+  FixResult,
+  ContentFixResult,
+  FilePreview,
+  FixPass,
+  FixStopReason,
+  FixStage,
+  OutputFormat,
+  LineRange,
+  AppliedFix,
+  IntroducedError,
+  FileFixReport,
+  SkippedFile,
+  Baseline,
+  BaselineEntry,
+  BaselineSummary,
+  ResultSummary,
+  ResultPage,
+  GroupBy,
+  ErrorGroup,
+  GroupedResult,
+  FileDiagnostics
+} from "./types.js";
 
 async function main() {
-  await startMCPServer();
+  await startMCPServer(parseServerArgs(process.argv.slice(2)));
 }
 
-main().catch((error) => {
-  process.stderr.write(`Server error: ${error}\n`);
-  process.exit(1);
-});
\ No newline at end of file
+/** Whether this module was run as the program, directly or through the npm bin symlink */
+function isEntryPoint(): boolean {
+  if (!process.argv[1]) {
+    return false;
+  }
+  try {
+    return fs.realpathSync(process.argv[1]) === fs.realpathSync(fileURLToPath(import.meta.url));
+  } catch {
+    return false;
+  }
+}
+
+if (isEntryPoint()) {
+  main().catch((error) => {
+    process.stderr.write(`Server error: ${error}\n`);
+    process.exit(1);
+  });
+}
\ No newline at end of file
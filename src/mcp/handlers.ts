@@ -1,12 +1,39 @@
 import * as yaml from "js-yaml";
 import * as fs from "fs";
-import { runNorminette } from "../core/norminette.js";
-import { fixNorminetteErrors } from "../fixing/pipeline.js";
+import * as path from "path";
+import { checkContent, checkPath, checkPaths } from "../core/norminette.js";
+import { addSourceContext } from "../core/context.js";
+import { DEFAULT_BASELINE_FILENAME, createBaseline, writeBaseline } from "../core/baseline.js";
+import { AllowedRoots, assertPathAllowed, isPathAllowed } from "../core/sandbox.js";
+import { DiagnosticsStore } from "../core/diagnostics-store.js";
+import { ProgressSink } from "../core/concurrency.js";
+import { fixContent, fixNorminetteErrors } from "../fixing/pipeline.js";
+import { FixSelectionOptions } from "../fixing/selection.js";
+import { assertMaxPasses } from "../fixing/convergence.js";
+import { undoFixSession } from "../fixing/journal.js";
+import { getNorminetteVersion } from "../core/version.js";
+import { getWatchers, startWatching, stopWatching } from "../core/watch.js";
+import { ReportableResult, formatResult, groupByValues, groupResult, outputFormats, queryResult } from "../reporting/index.js";
+import { OutputFormat } from "../types.js";
+import {
+  LoadedConfig,
+  loadConfig,
+  describeEffectiveConfig,
+  describeEnvironment,
+  fileListOptions,
+  norminetteRunOptions
+} from "../config/project-config.js";
+
+const formatProperty = {
+  type: "string",
+  enum: outputFormats,
+  description: "Output format (default yaml). json is the whole result; sarif, junit, checkstyle and github (Actions annotations) contain the diagnostics, for fixes the remaining errors",
+};
 
 export const toolDefinitions = [
   {
     name: "norminette_check",
-    description: "Run norminette on specified files or directory and return results in YAML format",
+    description: "Run norminette on specified files or directory and return results in YAML or another requested format",
     inputSchema: {
       type: "object",
       properties: {
@@ -14,8 +41,97 @@ export const toolDefinitions = [
           type: "string",
           description: "File or directory path to check with norminette",
         },
+        paths: {
+          type: "array",
+          items: { type: "string" },
+          description: "Several files or directories to check in one call, instead of path. The configuration of the first one applies",
+        },
+        since: {
+          type: "string",
+          description: "Only check files and lines changed since this git revision (e.g. HEAD, main), or \"staged\" for the staged changes",
+        },
+        rules: {
+          type: "array",
+          items: { type: "string" },
+          description: "norminette rules to enable, each passed as -R <rule> (e.g. CheckForbiddenSourceHeader, CheckDefine), added to the configured ones",
+        },
+        debug: {
+          type: "boolean",
+          description: "Run norminette with -d and include its debug output under debug_output",
+        },
+        use_gitignore: {
+          type: "boolean",
+          description: "Pass --use-gitignore to norminette and skip files ignored by .gitignore",
+        },
+        baseline: {
+          type: "string",
+          description: "Baseline file created by norminette_baseline; only errors it does not accept are reported, with matched, new and stale counts under baseline",
+        },
+        context_lines: {
+          type: "number",
+          description: "Attach the offending line with this many lines of context on each side (0-20) and a caret under the column to each error, as snippet",
+        },
+        codes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only report errors and notices with these codes",
+        },
+        files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only report errors and notices in files matching these globs (e.g. src/**/*.c), relative to the project root",
+        },
+        group_by: {
+          type: "string",
+          enum: groupByValues,
+          description: "Return the errors in groups of one file or one error code instead of one list",
+        },
+        limit: {
+          type: "number",
+          description: "Return at most this many errors; page.next_cursor continues where the page ended. The summary always counts every matching error",
+        },
+        cursor: {
+          type: "string",
+          description: "page.next_cursor of the previous call, with the same arguments otherwise",
+        },
+        statistics: {
+          type: "boolean",
+          description: "Add the error count of every file to the summary, as by_file",
+        },
+        format: formatProperty,
       },
-      required: ["path"],
+    },
+  },
+  {
+    name: "norminette_check_content",
+    description: "Run norminette on C source text without writing it to disk, e.g. to validate an edit before saving it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        content: {
+          type: "string",
+          description: "C source code to check",
+        },
+        filename: {
+          type: "string",
+          description: "Virtual file name ending in .c or .h; decides which rules apply (header guards use its basename) and is used in the reported errors",
+        },
+        rules: {
+          type: "array",
+          items: { type: "string" },
+          description: "norminette rules to enable, each passed as -R <rule> (e.g. CheckForbiddenSourceHeader, CheckDefine), added to the configured ones",
+        },
+        debug: {
+          type: "boolean",
+          description: "Run norminette with -d and include its debug output under debug_output",
+        },
+        context_lines: {
+          type: "number",
+          description: "Attach the offending line with this many lines of context on each side (0-20) and a caret under the column to each error, as snippet",
+        },
+        format: formatProperty,
+      },
+      required: ["content", "filename"],
     },
   },
   {
@@ -28,30 +144,493 @@ export const toolDefinitions = [
           type: "string",
           description: "File or directory path to fix norminette errors",
         },
+        dry_run: {
+          type: "boolean",
+          description: "Preview fixes without writing files: returns a unified diff and the predicted remaining errors per file",
+        },
+        max_passes: {
+          type: "number",
+          description: "Maximum number of check -> fix passes per file (default 5). Passes stop early once errors stop decreasing or the content starts cycling",
+        },
+        include_codes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only fix errors with these codes (e.g. INVALID_HEADER, SPACE_REPLACE_TAB)",
+        },
+        exclude_codes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Never fix errors with these codes",
+        },
+        include_fixers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only run these fixers (e.g. HEADER_FIXER, CLANG_FORMAT, SPACE_REPLACE_TAB, SPACE_BEFORE_FUNC)",
+        },
+        exclude_fixers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Never run these fixers",
+        },
+        stages: {
+          type: "array",
+          items: { type: "string", enum: ["structural", "clang-format", "token-formatter"] },
+          description: "Pipeline stages to run (default: all). clang-format reformats whole files and ignores error-code filters",
+        },
+        since: {
+          type: "string",
+          description: "Only fix lines changed since this git revision (e.g. HEAD, main), or \"staged\" for the staged changes",
+        },
+        format: formatProperty,
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "norminette_fix_content",
+    description: "Fix norminette errors in C source text without touching disk. Returns a YAML report followed by the fixed source",
+    inputSchema: {
+      type: "object",
+      properties: {
+        content: {
+          type: "string",
+          description: "C source code to fix",
+        },
+        filename: {
+          type: "string",
+          description: "Virtual file name ending in .c or .h; decides which rules apply and the name written into a generated 42 header",
+        },
+        max_passes: {
+          type: "number",
+          description: "Maximum number of check -> fix passes (default 5)",
+        },
+        include_codes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only fix errors with these codes",
+        },
+        exclude_codes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Never fix errors with these codes",
+        },
+        include_fixers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only run these fixers",
+        },
+        exclude_fixers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Never run these fixers",
+        },
+        stages: {
+          type: "array",
+          items: { type: "string", enum: ["structural", "clang-format", "token-formatter"] },
+          description: "Pipeline stages to run (default: all)",
+        },
+        format: formatProperty,
+      },
+      required: ["content", "filename"],
+    },
+  },
+  {
+    name: "norminette_config",
+    description: "Show the project configuration (.norminette-mcp.yml, searched upward from the path) and the effective settings used for checks and fixes",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File or directory whose configuration to resolve",
+        },
       },
       required: ["path"],
     },
   },
+  {
+    name: "norminette_baseline",
+    description: "Record the current norminette errors of a file or directory in a baseline file, so later checks with the baseline option report only new errors",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File or directory to check",
+        },
+        output: {
+          type: "string",
+          description: "Baseline file to write (default: .norminette-baseline.json next to the project configuration, or in the checked directory)",
+        },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "norminette_info",
+    description: "Report the installed norminette version and supported options, clang-format availability and which fixers are active, to diagnose why checks or fixes differ between machines",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File or directory whose configuration decides the active fixers (default: no configuration)",
+        },
+      },
+    },
+  },
+  {
+    name: "norminette_watch",
+    description: "Keep the norminette diagnostics of a directory up to date: start checks every C file once, then re-checks files as they change. The results are served as norminette:// resources; status reports the current counts",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["start", "stop", "status"],
+          description: "start or stop watching a directory, or report the status of the watches",
+        },
+        path: {
+          type: "string",
+          description: "Directory to watch; for stop and status, omit to mean every watched directory",
+        },
+        debounce_ms: {
+          type: "number",
+          description: "Milliseconds without further changes before changed files are re-checked (default 300)",
+        },
+      },
+      required: ["action"],
+    },
+  },
+  {
+    name: "norminette_undo",
+    description: "Restore files rewritten by a previous norminette_fix run. Refuses if any of those files was edited since the fix",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session_id: {
+          type: "string",
+          description: "Fix session to undo (the session_id reported by norminette_fix). Defaults to the most recent session",
+        },
+      },
+    },
+  },
 ];
 
-export async function handleToolCall(name: string, args: any) {
+/**
+ * Per-request state from the MCP layer
+ */
+export interface ToolCallContext {
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  /** Directories tools may access; null or omitted allows every path */
+  allowedRoots?: AllowedRoots;
+  /** Where checked files' diagnostics are recorded for resources and watchers */
+  diagnostics?: DiagnosticsStore;
+  /** Reports progress of multi-file checks and fixes, when the client asked for it */
+  onProgress?: ProgressSink;
+}
+
+function outputFormat(args: any): OutputFormat {
+  const format = args.format ?? "yaml";
+  if (!outputFormats.includes(format)) {
+    throw new Error(`Unknown format: ${format}. Available formats: ${outputFormats.join(', ')}`);
+  }
+  return format;
+}
+
+/**
+ * A list-of-strings argument, e.g. codes or file globs; undefined when it was not given
+ */
+function stringListArgument(args: any, name: string): string[] | undefined {
+  const value = args[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every((item: unknown) => typeof item === "string")) {
+    throw new Error(`${name} must be a list of strings`);
+  }
+  return value;
+}
+
+/**
+ * The rules argument: a list of norminette rule names, each passed as one -R flag
+ */
+function ruleArguments(args: any): string[] {
+  return stringListArgument(args, "rules") ?? [];
+}
+
+/**
+ * The error code and fixer filters of norminette_fix and norminette_fix_content
+ */
+function fixSelectionArguments(args: any): FixSelectionOptions {
+  return {
+    includeCodes: stringListArgument(args, "include_codes"),
+    excludeCodes: stringListArgument(args, "exclude_codes"),
+    includeFixers: stringListArgument(args, "include_fixers"),
+    excludeFixers: stringListArgument(args, "exclude_fixers"),
+    stages: args.stages,
+  };
+}
+
+async function renderResult(result: ReportableResult, format: OutputFormat): Promise<string> {
+  return formatResult(result, format, {
+    toolVersion: format === "sarif" ? await getNorminetteVersion() : undefined,
+  });
+}
+
+/**
+ * Project configuration for a virtual file, looked up from its directory when the name is an
+ * absolute path to an existing, allowed directory; otherwise the defaults apply
+ */
+function loadContentConfig(filename: string, context: ToolCallContext): LoadedConfig {
+  const dir = path.dirname(filename);
+  if (path.isAbsolute(filename) && fs.existsSync(dir) && isPathAllowed(dir, context.allowedRoots ?? null)) {
+    return loadConfig(dir);
+  }
+  return { path: null, root: dir, config: {} };
+}
+
+export async function handleToolCall(name: string, args: any, context: ToolCallContext = {}) {
+  if (name === "norminette_undo") {
+    const undoResult = undoFixSession(args?.session_id, context.allowedRoots ?? null);
+    const yamlOutput = yaml.dump(undoResult, { indent: 2 });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: yamlOutput,
+        },
+      ],
+    };
+  }
+
+  if (name === "norminette_info") {
+    const targetPath = args?.path as string | undefined;
+    let loaded: LoadedConfig = { path: null, root: process.cwd(), config: {} };
+
+    if (targetPath) {
+      assertPathAllowed(targetPath, context.allowedRoots ?? null);
+
+      if (!fs.existsSync(targetPath)) {
+        throw new Error(`Path does not exist: ${targetPath}`);
+      }
+      loaded = loadConfig(targetPath);
+    }
+
+    const info = await describeEnvironment(loaded);
+    const yamlOutput = yaml.dump(info, { indent: 2 });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: yamlOutput,
+        },
+      ],
+    };
+  }
+
   if (!args) {
     throw new Error("No arguments provided");
   }
 
   if (name === "norminette_check") {
+    const targetPaths: string[] = Array.isArray(args.paths) && args.paths.length > 0 ? args.paths : [args.path].filter(Boolean);
+    
+    if (targetPaths.length === 0) {
+      throw new Error("Path argument is required");
+    }
+    const format = outputFormat(args);
+    if (args.group_by !== undefined && !groupByValues.includes(args.group_by)) {
+      throw new Error(`Unknown group_by: ${args.group_by}. Use one of: ${groupByValues.join(', ')}`);
+    }
+    
+    for (const targetPath of targetPaths) {
+      assertPathAllowed(targetPath, context.allowedRoots ?? null);
+
+      if (!fs.existsSync(targetPath)) {
+        throw new Error(`Path does not exist: ${targetPath}`);
+      }
+    }
+    if (args.baseline) {
+      assertPathAllowed(args.baseline, context.allowedRoots ?? null);
+    }
+
+    const loaded = loadConfig(targetPaths[0]);
+    const runOptions = norminetteRunOptions(loaded);
+    const fileList = { ...fileListOptions(loaded), allowedRoots: context.allowedRoots };
+    const codes = stringListArgument(args, "codes");
+    const files = stringListArgument(args, "files");
+    const result = await checkPaths(targetPaths, {
+      ...runOptions,
+      rules: [...(runOptions.rules ?? []), ...ruleArguments(args)],
+      debug: args.debug === true,
+      useGitignore: runOptions.useGitignore || args.use_gitignore === true,
+      since: args.since,
+      baseline: args.baseline,
+      fileList: args.use_gitignore === true ? { ...fileList, gitignore: true } : fileList,
+      signal: context.signal,
+      diagnostics: context.diagnostics,
+      onProgress: context.onProgress,
+    });
+    const queried = [args.codes, args.files, args.group_by, args.limit, args.cursor, args.statistics].some(arg => arg !== undefined)
+      ? queryResult(result, {
+        codes,
+        files,
+        root: loaded.root,
+        orderBy: args.group_by,
+        limit: args.limit,
+        cursor: args.cursor,
+        statistics: args.statistics === true,
+      })
+      : result;
+    if (args.context_lines !== undefined) {
+      addSourceContext(queried, args.context_lines);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: await renderResult(args.group_by ? groupResult(queried, args.group_by) : queried, format),
+        },
+      ],
+    };
+  } else if (name === "norminette_check_content") {
+    if (typeof args.content !== "string") {
+      throw new Error("Content argument is required");
+    }
+    if (!args.filename) {
+      throw new Error("Filename argument is required");
+    }
+
+    const format = outputFormat(args);
+
+    const runOptions = norminetteRunOptions(loadContentConfig(args.filename, context));
+    const result = await checkContent(args.content, args.filename, {
+      ...runOptions,
+      rules: [...(runOptions.rules ?? []), ...ruleArguments(args)],
+      debug: args.debug === true,
+      signal: context.signal,
+    });
+    if (args.context_lines !== undefined) {
+      addSourceContext(result, args.context_lines, () => args.content);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: await renderResult(result, format),
+        },
+      ],
+    };
+  } else if (name === "norminette_fix") {
     const targetPath = args.path as string;
     
     if (!targetPath) {
       throw new Error("Path argument is required");
     }
     
+    assertPathAllowed(targetPath, context.allowedRoots ?? null);
+
     if (!fs.existsSync(targetPath)) {
       throw new Error(`Path does not exist: ${targetPath}`);
     }
+    const format = outputFormat(args);
+    assertMaxPasses(args.max_passes);
+
+    const fixResult = await fixNorminetteErrors(targetPath, {
+      dryRun: args.dry_run === true,
+      maxPasses: args.max_passes,
+      ...fixSelectionArguments(args),
+      since: args.since,
+      allowedRoots: context.allowedRoots,
+      signal: context.signal,
+      diagnostics: context.diagnostics,
+      onProgress: context.onProgress,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: await renderResult(fixResult, format),
+        },
+      ],
+    };
+  } else if (name === "norminette_fix_content") {
+    if (typeof args.content !== "string") {
+      throw new Error("Content argument is required");
+    }
+    if (!args.filename) {
+      throw new Error("Filename argument is required");
+    }
+    const format = outputFormat(args);
+    assertMaxPasses(args.max_passes);
 
-    const result = await runNorminette(targetPath);
-    const yamlOutput = yaml.dump(result, { indent: 2 });
+    const { content: fixedContent, ...report } = await fixContent(args.content, args.filename, {
+      maxPasses: args.max_passes,
+      ...fixSelectionArguments(args),
+      config: loadContentConfig(args.filename, context),
+      signal: context.signal,
+    });
+
+    // The source goes in its own block: YAML would escape every tab
+    return {
+      content: [
+        {
+          type: "text",
+          text: await renderResult(report, format),
+        },
+        {
+          type: "text",
+          text: fixedContent,
+        },
+      ],
+    };
+  } else if (name === "norminette_baseline") {
+    const targetPath = args.path as string;
+
+    if (!targetPath) {
+      throw new Error("Path argument is required");
+    }
+
+    assertPathAllowed(targetPath, context.allowedRoots ?? null);
+
+    if (!fs.existsSync(targetPath)) {
+      throw new Error(`Path does not exist: ${targetPath}`);
+    }
+
+    const loaded = loadConfig(targetPath);
+    const baselinePath = args.output ?? path.join(loaded.root, DEFAULT_BASELINE_FILENAME);
+    assertPathAllowed(baselinePath, context.allowedRoots ?? null);
+
+    const result = await checkPath(targetPath, {
+      ...norminetteRunOptions(loaded),
+      fileList: { ...fileListOptions(loaded), allowedRoots: context.allowedRoots },
+      signal: context.signal,
+      onProgress: context.onProgress,
+    });
+    const baseline = createBaseline(result.errors, baselinePath, await getNorminetteVersion());
+    writeBaseline(baselinePath, baseline);
+
+    const report: Record<string, unknown> = {
+      baseline_file: baselinePath,
+      entries: baseline.entries.length,
+      files: new Set(baseline.entries.map(entry => entry.file)).size,
+      norminette_version: baseline.norminette_version,
+    };
+    // Errors in these files could not be recorded, so they will show up as new later
+    if (result.failures || result.timed_out) {
+      report.not_recorded = {
+        failures: result.failures ?? [],
+        timed_out: result.timed_out ?? [],
+      };
+    }
+    const yamlOutput = yaml.dump(report, { indent: 2 });
 
     return {
       content: [
@@ -61,19 +640,80 @@ export async function handleToolCall(name: string, args: any) {
         },
       ],
     };
-  } else if (name === "norminette_fix") {
+  } else if (name === "norminette_config") {
     const targetPath = args.path as string;
-    
+
     if (!targetPath) {
       throw new Error("Path argument is required");
     }
-    
+
+    assertPathAllowed(targetPath, context.allowedRoots ?? null);
+
     if (!fs.existsSync(targetPath)) {
       throw new Error(`Path does not exist: ${targetPath}`);
     }
 
-    const fixResult = await fixNorminetteErrors(targetPath);
-    const yamlOutput = yaml.dump(fixResult, { indent: 2 });
+    const effective = await describeEffectiveConfig(loadConfig(targetPath));
+    const yamlOutput = yaml.dump(effective, { indent: 2 });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: yamlOutput,
+        },
+      ],
+    };
+  } else if (name === "norminette_watch") {
+    const targetPath = args.path as string | undefined;
+    let watches;
+
+    if (args.action === "start") {
+      if (!targetPath) {
+        throw new Error("Path argument is required");
+      }
+
+      assertPathAllowed(targetPath, context.allowedRoots ?? null);
+
+      if (!fs.existsSync(targetPath) || !fs.statSync(targetPath).isDirectory()) {
+        throw new Error(`Not a directory: ${targetPath}`);
+      }
+
+      if (args.debounce_ms !== undefined && !(Number.isInteger(args.debounce_ms) && args.debounce_ms >= 0)) {
+        throw new Error(`debounce_ms must be a non-negative integer: ${args.debounce_ms}`);
+      }
+
+      const loaded = loadConfig(targetPath);
+      const watcher = await startWatching(targetPath, {
+        ...norminetteRunOptions(loaded),
+        fileList: { ...fileListOptions(loaded), allowedRoots: context.allowedRoots },
+        debounce: args.debounce_ms,
+        diagnostics: context.diagnostics,
+      });
+      watches = [watcher.status()];
+    } else if (args.action === "stop" || args.action === "status") {
+      // Watches outside the allowed roots belong to other clients and are not visible here
+      const roots = context.allowedRoots ?? null;
+      if (targetPath) {
+        assertPathAllowed(targetPath, roots);
+      }
+      const watchers = getWatchers().filter(watcher =>
+        isPathAllowed(watcher.root, roots) && (!targetPath || watcher.root === path.resolve(targetPath))
+      );
+      if (targetPath && watchers.length === 0) {
+        throw new Error(`Not watching ${targetPath}`);
+      }
+      if (args.action === "stop") {
+        for (const watcher of watchers) {
+          stopWatching(watcher.root);
+        }
+      }
+      watches = watchers.map(watcher => watcher.status());
+    } else {
+      throw new Error(`Unknown action: ${args.action}. Use start, stop or status`);
+    }
+
+    const yamlOutput = yaml.dump({ watches }, { indent: 2 });
 
     return {
       content: [
@@ -0,0 +1,243 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ALLOWED_ROOTS_ENV, getEnvAllowedRoots } from "../core/sandbox.js";
+
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+/** Environment variable holding the bearer token clients must send */
+export const HTTP_TOKEN_ENV = "NORMINETTE_MCP_TOKEN";
+
+/** Streamable HTTP endpoint */
+const MCP_PATH = "/mcp";
+/** Legacy HTTP+SSE transport: the event stream, and where clients post their messages */
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+/** Largest request body accepted, in bytes */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  port?: number;
+  host?: string;
+  /** Require `Authorization: Bearer <token>` on every request; mandatory unless `host` is a loopback address */
+  token?: string;
+  /**
+   * Further names clients may address the server by in their Host and Origin headers, e.g. the
+   * machine's name or address; required when `host` is a wildcard address such as 0.0.0.0
+   */
+  allowedHosts?: string[];
+}
+
+export interface HttpServerHandle {
+  /** Base URL, e.g. http://127.0.0.1:3000; the port is the actual one when 0 was requested */
+  url: string;
+  /** Close every session and stop listening */
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+/** Host name without the brackets of an IPv6 literal, lower-cased */
+function normalizeHostname(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+}
+
+/** Addresses that bind every interface, and that no client uses as a host name */
+function isWildcardHost(host: string): boolean {
+  const hostname = normalizeHostname(host);
+  return hostname === "0.0.0.0" || hostname === "::";
+}
+
+function isLoopbackHost(host: string): boolean {
+  const hostname = normalizeHostname(host);
+  return hostname === "localhost" || hostname === "::1" || /^127(\.\d{1,3}){3}$/.test(hostname);
+}
+
+/**
+ * Whether the request was addressed to this server: its Host, and its Origin when a browser
+ * sends one, must name a loopback address, the configured host or an allowed host. This stops web pages from
+ * reaching a local server through DNS rebinding or cross-origin requests.
+ */
+function isTrustedRequest(req: http.IncomingMessage, hosts: Set<string>): boolean {
+  const trusted = (hostname: string) => isLoopbackHost(hostname) || hosts.has(normalizeHostname(hostname));
+  const hostname = (value: string) => {
+    try {
+      return new URL(value).hostname;
+    } catch {
+      return null;
+    }
+  };
+
+  const hostHeader = req.headers.host ? hostname(`http://${req.headers.host}`) : null;
+  if (hostHeader === null || !trusted(hostHeader)) {
+    return false;
+  }
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return true;
+  }
+  const originHost = hostname(origin);
+  return originHost !== null && trusted(originHost);
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Parse error: the request body is not JSON");
+  }
+}
+
+/**
+ * Serve the MCP server over HTTP: the streamable HTTP transport on /mcp, and the legacy
+ * HTTP+SSE transport on /sse (event stream) and /messages. Every client session gets its own
+ * MCP server; they share the process-wide result cache, diagnostics and watches, so one
+ * long-lived process serves several clients with warm caches.
+ */
+export async function startHttpServer(createServer: () => Server, options: HttpServerOptions = {}): Promise<HttpServerHandle> {
+  const host = options.host ?? DEFAULT_HTTP_HOST;
+  if (!isLoopbackHost(host) && !options.token) {
+    throw new Error(`Refusing to listen on ${host} without a token: set --token or ${HTTP_TOKEN_ENV}`);
+  }
+  // Client roots are whatever the client claims, so only the configured ones confine an open server
+  if (!options.token && getEnvAllowedRoots() === null) {
+    throw new Error(`Refusing to serve HTTP without a token or allowed roots, since any local user could read and rewrite your files: set --token, ${HTTP_TOKEN_ENV} or ${ALLOWED_ROOTS_ENV}`);
+  }
+  if (isWildcardHost(host) && !options.allowedHosts?.length) {
+    throw new Error(`Listening on ${host} needs --allowed-host: clients must address the server by a loopback name or an allowed host`);
+  }
+  const trustedHosts = new Set([host, ...(options.allowedHosts ?? [])].map(normalizeHostname));
+
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+    let transport = typeof sessionId === "string" ? streamableSessions.get(sessionId) : undefined;
+
+    if (!transport) {
+      if (sessionId !== undefined || !isInitializeRequest(body)) {
+        throw new HttpError(sessionId !== undefined ? 404 : 400, "No valid session ID provided");
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => crypto.randomUUID(),
+        onsessioninitialized: id => {
+          streamableSessions.set(id, created);
+        },
+      });
+      await createServer().connect(created);
+      // connect() takes over onclose, so the session is forgotten after the server closed
+      const closeServer = created.onclose;
+      created.onclose = () => {
+        if (created.sessionId) {
+          streamableSessions.delete(created.sessionId);
+        }
+        closeServer?.();
+      };
+      transport = created;
+    }
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    if (url.pathname === SSE_PATH && req.method === "GET") {
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      sseSessions.set(transport.sessionId, transport);
+      res.on("close", () => {
+        sseSessions.delete(transport.sessionId);
+      });
+      await createServer().connect(transport);
+      return;
+    }
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+      const transport = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+      if (!transport) {
+        throw new HttpError(404, "Unknown SSE session");
+      }
+      await transport.handlePostMessage(req, res, await readJsonBody(req));
+      return;
+    }
+    throw new HttpError(405, `Method ${req.method} not allowed on ${url.pathname}`);
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (!isTrustedRequest(req, trustedHosts)) {
+      sendError(res, 403, "Forbidden: the Host or Origin header names an untrusted host");
+      return;
+    }
+    if (options.token && !isAuthorized(req, options.token)) {
+      sendError(res, 401, "Missing or invalid bearer token", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === MCP_PATH) {
+      handled = handleStreamable(req, res);
+    } else if (url.pathname === SSE_PATH || url.pathname === SSE_MESSAGES_PATH) {
+      handled = handleSse(req, res, url);
+    } else {
+      handled = Promise.reject(new HttpError(404, `Not found: ${url.pathname}`));
+    }
+    handled.catch(error => {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+      } else {
+        sendError(res, 500, `Internal error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_HTTP_PORT, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as { port: number };
+  return {
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${address.port}`,
+    close: async () => {
+      const transports = [...streamableSessions.values(), ...sseSessions.values()];
+      await Promise.all(transports.map(transport => transport.close()));
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
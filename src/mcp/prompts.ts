@@ -0,0 +1,327 @@
+import * as fs from "fs";
+import * as path from "path";
+import { checkPath } from "../core/norminette.js";
+import { parseNorminetteOutput } from "../core/parser.js";
+import { addSourceContext } from "../core/context.js";
+import { summarizeResult } from "../core/summary.js";
+import { isCSourceFile } from "../core/file-utils.js";
+import { AllowedRoots, assertPathAllowed, isPathAllowed } from "../core/sandbox.js";
+import { DiagnosticsStore } from "../core/diagnostics-store.js";
+import { getRuleMetadata } from "../reporting/rules.js";
+import { fileListOptions, loadConfig, norminetteRunOptions } from "../config/project-config.js";
+import { NorminetteError, NorminetteResult } from "../types.js";
+
+/** Errors listed one by one in a prompt; the rest are only counted */
+const MAX_PROMPT_ERRORS = 50;
+/** Lines of source shown around each error */
+const PROMPT_CONTEXT_LINES = 2;
+/** Lines a function body may have */
+const MAX_FUNCTION_LINES = 25;
+
+export const promptDefinitions = [
+  {
+    name: "fix_remaining_errors",
+    description: "Fix the norminette errors left in a file by hand, with each error, its source and whether norminette_fix can handle it",
+    arguments: [
+      {
+        name: "file",
+        description: "C source or header file to fix",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "split_function",
+    description: "Split a function over 25 lines (TOO_MANY_LINES) into smaller ones that respect the norm, with the function's source",
+    arguments: [
+      {
+        name: "file",
+        description: "C source file containing the function",
+        required: true,
+      },
+      {
+        name: "function",
+        description: "Name of the function to split; defaults to every function norminette reports as too long",
+      },
+    ],
+  },
+  {
+    name: "explain_report",
+    description: "Explain a norminette report: what each error means, why the norm has the rule and how to fix it",
+    arguments: [
+      {
+        name: "path",
+        description: "File or directory to check and explain",
+      },
+      {
+        name: "output",
+        description: "Raw norminette output to explain instead of checking a path",
+      },
+    ],
+  },
+];
+
+export interface PromptContext {
+  /** Directories prompts may read; null or omitted allows every path */
+  allowedRoots?: AllowedRoots;
+  /** Where the checks made for prompts are recorded */
+  diagnostics?: DiagnosticsStore;
+  signal?: AbortSignal;
+}
+
+export interface SourceFunction {
+  name: string;
+  /** 1-based line of the first declaration line */
+  start: number;
+  /** 1-based line of the closing brace */
+  end: number;
+  bodyLines: number;
+  source: string;
+}
+
+function userPrompt(description: string, text: string) {
+  return {
+    description,
+    messages: [
+      {
+        role: "user" as const,
+        content: { type: "text" as const, text },
+      },
+    ],
+  };
+}
+
+function requireArgument(args: Record<string, string>, name: string): string {
+  if (!args[name]) {
+    throw new Error(`Argument ${name} is required`);
+  }
+  return args[name];
+}
+
+async function checkForPrompt(targetPath: string, context: PromptContext): Promise<NorminetteResult> {
+  assertPathAllowed(targetPath, context.allowedRoots ?? null);
+
+  if (!fs.existsSync(targetPath)) {
+    throw new Error(`Path does not exist: ${targetPath}`);
+  }
+
+  const loaded = loadConfig(targetPath);
+  const result = await checkPath(targetPath, {
+    ...norminetteRunOptions(loaded),
+    fileList: { ...fileListOptions(loaded), allowedRoots: context.allowedRoots },
+    signal: context.signal,
+    diagnostics: context.diagnostics,
+  });
+  return addSourceContext(result, PROMPT_CONTEXT_LINES);
+}
+
+function describeErrors(errors: NorminetteError[]): string {
+  const listed = errors.slice(0, MAX_PROMPT_ERRORS).map(error => {
+    const line = `- ${error.file}:${error.line}:${error.column} ${error.error_code}: ${error.description}`;
+    return error.snippet ? `${line}\n${error.snippet.replace(/^/gm, '    ')}` : line;
+  });
+  if (errors.length > MAX_PROMPT_ERRORS) {
+    listed.push(`- ... and ${errors.length - MAX_PROMPT_ERRORS} more`);
+  }
+  return listed.join('\n');
+}
+
+function isAutoFixable(error: NorminetteError): boolean {
+  return getRuleMetadata(error.error_code, error.description).fixers.length > 0;
+}
+
+/**
+ * The function whose body starts at the opening brace on line index `brace` (0-based).
+ * 42-style functions have their braces alone in column 0, which is what this relies on.
+ */
+function functionAt(lines: string[], brace: number): SourceFunction | null {
+  let end = brace + 1;
+  while (end < lines.length && !lines[end].startsWith('}')) {
+    end++;
+  }
+  let start = brace;
+  while (start > 0 && lines[start - 1].trim() !== '' && !/^[#}]|[;/]\s*$/.test(lines[start - 1])) {
+    start--;
+  }
+  const name = lines.slice(start, brace).join(' ').match(/([A-Za-z_]\w*)\s*\(/);
+  if (!name || end >= lines.length) {
+    return null;
+  }
+  return {
+    name: name[1],
+    start: start + 1,
+    end: end + 1,
+    bodyLines: end - brace - 1,
+    source: lines.slice(start, end + 1).join('\n'),
+  };
+}
+
+/**
+ * The function definitions of a C file, found by their opening braces in column 0
+ */
+export function findFunctions(source: string): SourceFunction[] {
+  const lines = source.split('\n');
+  const functions: SourceFunction[] = [];
+  lines.forEach((line, index) => {
+    if (line.startsWith('{')) {
+      const found = functionAt(lines, index);
+      if (found) {
+        functions.push(found);
+      }
+    }
+  });
+  return functions;
+}
+
+/**
+ * The functions to split: the one named, or else every function containing a TOO_MANY_LINES error
+ */
+export function functionsToSplit(source: string, errors: NorminetteError[], name?: string): SourceFunction[] {
+  const functions = findFunctions(source);
+  if (name) {
+    return functions.filter(candidate => candidate.name === name);
+  }
+  const tooLong = errors.filter(error => error.error_code === "TOO_MANY_LINES");
+  return functions.filter(candidate => tooLong.some(error => error.line >= candidate.start && error.line <= candidate.end));
+}
+
+/**
+ * The file argument, which must name a C source or header file inside the allowed roots
+ */
+function requireSourceFile(args: Record<string, string>, context: PromptContext): string {
+  const file = requireArgument(args, "file");
+  assertPathAllowed(file, context.allowedRoots ?? null);
+  if (!isCSourceFile(file) || (fs.existsSync(file) && !fs.statSync(file).isFile())) {
+    throw new Error(`Not a C source file: ${file}`);
+  }
+  return file;
+}
+
+async function fixRemainingErrorsPrompt(args: Record<string, string>, context: PromptContext) {
+  const file = requireSourceFile(args, context);
+  const result = await checkForPrompt(file, context);
+  const description = `Fix the remaining norminette errors in ${file}`;
+
+  if (result.errors.length === 0 && !result.failures) {
+    return userPrompt(description, `norminette reports no errors in ${file}; there is nothing to fix.`);
+  }
+
+  const fixable = result.errors.filter(isAutoFixable);
+  const manual = result.errors.filter(error => !isAutoFixable(error));
+  const sections = [`norminette reports ${result.errors.length} errors in ${file}. Fix them without changing what the code does.`];
+
+  if (fixable.length > 0) {
+    sections.push(`These ${fixable.length} errors can be fixed automatically. Run the norminette_fix tool on ${file} first, then check what is left:\n${describeErrors(fixable)}`);
+  }
+  if (manual.length > 0) {
+    sections.push(`These ${manual.length} errors need changes by hand:\n${describeErrors(manual)}`);
+  }
+  if (result.failures) {
+    sections.push(`norminette could not fully check the file, so errors may be missing:\n${result.failures.map(failure => `- ${failure.message}`).join('\n')}`);
+  }
+  sections.push([
+    "Work through the errors in file order:",
+    "- Change as little as possible for each error and keep the 42 header intact.",
+    "- For TOO_MANY_LINES, extract coherent steps into helper functions, as in the split_function prompt. For TOO_MANY_FUNCS, move functions to another file and declare them in the project header.",
+    "- Do not introduce constructs the norm forbids (for, do ... while, switch, ternaries, declarations after statements, more than 4 parameters or 5 variables per function).",
+    `- Re-run norminette_check on ${file} after editing and repeat until it reports no errors.`,
+  ].join('\n'));
+
+  return userPrompt(description, sections.join('\n\n'));
+}
+
+async function splitFunctionPrompt(args: Record<string, string>, context: PromptContext) {
+  const file = requireSourceFile(args, context);
+  const result = await checkForPrompt(file, context);
+  const source = fs.readFileSync(file, 'utf-8');
+
+  const selected = functionsToSplit(source, result.errors, args.function);
+  if (selected.length === 0) {
+    throw new Error(args.function
+      ? `Function ${args.function} not found in ${file}`
+      : `norminette reports no function over ${MAX_FUNCTION_LINES} lines in ${file}; name one with the function argument`);
+  }
+
+  const functionCount = findFunctions(source).length;
+  const sections = selected.map(candidate =>
+    `${candidate.name} (lines ${candidate.start}-${candidate.end}) has ${candidate.bodyLines} lines in its body:\n\n\`\`\`c\n${candidate.source}\n\`\`\``
+  );
+  const names = selected.map(candidate => candidate.name).join(', ');
+
+  return userPrompt(`Split ${names} in ${file} into functions of at most ${MAX_FUNCTION_LINES} lines`, [
+    `Split ${selected.length === 1 ? 'this function' : 'these functions'} from ${file} into smaller functions that pass norminette.`,
+    ...sections,
+    [
+      "The result must respect the norm:",
+      `- Every function body has at most ${MAX_FUNCTION_LINES} lines between its braces.`,
+      "- At most 4 parameters and 5 variable declarations per function; declarations come first in the body, followed by one empty line.",
+      `- At most 5 functions per .c file. ${file} has ${functionCount} now; if the helpers would exceed the limit, move them to a new file and declare them in the project header.`,
+      "- Helpers used only in this file are static, and named after what they do, in snake_case.",
+      "- Behavior stays identical, including return values, error handling and freed memory.",
+      `Explain the split in a few sentences before editing, then re-run norminette_check on ${file}.`,
+    ].join('\n'),
+  ].join('\n\n'));
+}
+
+async function explainReportPrompt(args: Record<string, string>, context: PromptContext) {
+  let result: NorminetteResult;
+  let subject: string;
+
+  if (args.output) {
+    const parsed = parseNorminetteOutput(args.output);
+    result = {
+      status: parsed.errors.length > 0 ? "Error" : "OK",
+      files_checked: parsed.files_checked,
+      summary: summarizeResult(parsed),
+      errors: parsed.errors,
+      notices: parsed.notices,
+      failures: parsed.failures,
+    };
+    // The report may name any file; only show source the client may read
+    const roots = context.allowedRoots ?? null;
+    addSourceContext(result, PROMPT_CONTEXT_LINES, file =>
+      isPathAllowed(file, roots) && fs.existsSync(file) && fs.statSync(file).isFile() ? fs.readFileSync(file, 'utf-8') : null
+    );
+    subject = "this norminette report";
+  } else if (args.path) {
+    result = await checkForPrompt(args.path, context);
+    subject = `the norminette report for ${path.basename(args.path) || args.path}`;
+  } else {
+    throw new Error("Argument path or output is required");
+  }
+
+  const codes = Object.entries(result.summary.by_code).map(([code, count]) => {
+    const rule = getRuleMetadata(code, result.errors.find(error => error.error_code === code)?.description);
+    const fixers = rule.fixers.length > 0 ? `fixable by norminette_fix (${rule.fixers.join(', ')})` : "not fixable automatically";
+    return `- ${code}: ${count} errors, ${rule.category}, ${fixers}. ${rule.description}`;
+  });
+
+  const sections = [
+    `Explain ${subject} to a student learning the 42 norm: for each kind of error, what it means, why the norm has the rule and how to fix it, with an example from the code below. Start with the most frequent ones, and say which ones the norminette_fix tool handles so the student can focus on the rest.`,
+    `Summary: ${result.summary.message}`,
+  ];
+  if (codes.length > 0) {
+    sections.push(`Errors by code:\n${codes.join('\n')}`);
+    sections.push(`Errors:\n${describeErrors(result.errors)}`);
+  }
+  if (result.notices && result.notices.length > 0) {
+    sections.push(`Notices (they do not fail the norm):\n${describeErrors(result.notices)}`);
+  }
+  if (result.failures && result.failures.length > 0) {
+    sections.push(`Files norminette could not check:\n${result.failures.map(failure => `- ${failure.file ?? 'norminette'}: ${failure.message}`).join('\n')}`);
+  }
+
+  return userPrompt(`Explain ${subject}`, sections.join('\n\n'));
+}
+
+export async function getPrompt(name: string, args: Record<string, string> = {}, context: PromptContext = {}) {
+  if (name === "fix_remaining_errors") {
+    return fixRemainingErrorsPrompt(args, context);
+  } else if (name === "split_function") {
+    return splitFunctionPrompt(args, context);
+  } else if (name === "explain_report") {
+    return explainReportPrompt(args, context);
+  }
+
+  throw new Error(`Unknown prompt: ${name}`);
+}
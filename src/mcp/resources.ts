@@ -0,0 +1,127 @@
+import * as yaml from "js-yaml";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { runNorminette } from "../core/norminette.js";
+import { isCSourceFile } from "../core/file-utils.js";
+import { AllowedRoots, assertPathAllowed, isPathAllowed } from "../core/sandbox.js";
+import { DiagnosticsStore } from "../core/diagnostics-store.js";
+import { loadConfig, norminetteRunOptions } from "../config/project-config.js";
+
+export const PROJECT_SUMMARY_URI = "norminette://project/summary";
+const FILE_URI_PREFIX = "norminette://file";
+const MIME_TYPE = "application/yaml";
+
+export const resourceTemplates = [
+  {
+    uriTemplate: `${FILE_URI_PREFIX}{+path}`,
+    name: "File diagnostics",
+    description: "Latest norminette errors, notices and failures of one C file, by absolute path (e.g. norminette://file/home/me/project/main.c). A file not checked yet is checked on first read",
+    mimeType: MIME_TYPE,
+  },
+];
+
+export interface ResourceContext {
+  diagnostics: DiagnosticsStore;
+  /** Directories resources may expose; null or omitted allows every path */
+  allowedRoots?: AllowedRoots;
+}
+
+export function fileResourceUri(file: string): string {
+  return FILE_URI_PREFIX + pathToFileURL(path.resolve(file)).pathname;
+}
+
+/**
+ * The file a norminette://file/ URI stands for, or null for any other URI
+ */
+export function resourceFilePath(uri: string): string | null {
+  if (!uri.startsWith(`${FILE_URI_PREFIX}/`)) {
+    return null;
+  }
+  try {
+    return fileURLToPath(`file://${uri.slice(FILE_URI_PREFIX.length)}`);
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+}
+
+/**
+ * Whether uri names a resource of this server, so subscribing to it makes sense
+ */
+export function isKnownResourceUri(uri: string): boolean {
+  return uri === PROJECT_SUMMARY_URI || resourceFilePath(uri) !== null;
+}
+
+/**
+ * The project summary and one resource per file with recorded diagnostics
+ */
+export function listResources(context: ResourceContext) {
+  const files = context.diagnostics.list()
+    .filter(entry => isPathAllowed(entry.file, context.allowedRoots ?? null));
+  return [
+    {
+      uri: PROJECT_SUMMARY_URI,
+      name: "Project summary",
+      description: "Error counts over every file checked so far, and the status of each file",
+      mimeType: MIME_TYPE,
+    },
+    ...files.map(entry => ({
+      uri: fileResourceUri(entry.file),
+      name: path.basename(entry.file),
+      description: `norminette diagnostics of ${entry.file}: ${entry.status}, ${entry.errors.length} errors`,
+      mimeType: MIME_TYPE,
+    })),
+  ];
+}
+
+export async function readResource(uri: string, context: ResourceContext) {
+  const roots = context.allowedRoots ?? null;
+  let content: unknown;
+
+  if (uri === PROJECT_SUMMARY_URI) {
+    const files = context.diagnostics.list().filter(entry => isPathAllowed(entry.file, roots));
+    content = {
+      summary: context.diagnostics.summarize(entry => isPathAllowed(entry.file, roots)),
+      files: files.map(entry => ({
+        file: entry.file,
+        uri: fileResourceUri(entry.file),
+        status: entry.status,
+        errors: entry.errors.length,
+        notices: entry.notices.length,
+        checked_at: entry.checked_at,
+      })),
+    };
+  } else {
+    const file = resourceFilePath(uri);
+    if (file === null) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    assertPathAllowed(file, roots);
+
+    let entry = context.diagnostics.get(file);
+    if (!entry) {
+      if (!fs.existsSync(file)) {
+        throw new Error(`Path does not exist: ${file}`);
+      }
+      if (!fs.statSync(file).isFile() || !isCSourceFile(file)) {
+        throw new Error(`Not a C source file: ${file}`);
+      }
+      await runNorminette(file, { ...norminetteRunOptions(loadConfig(file)), diagnostics: context.diagnostics });
+      entry = context.diagnostics.get(file);
+      if (!entry) {
+        throw new Error(`norminette timed out on ${file}`);
+      }
+    }
+    content = entry;
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPE,
+        text: yaml.dump(content, { indent: 2 }),
+      },
+    ],
+  };
+}
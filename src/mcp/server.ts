@@ -2,11 +2,116 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  RootsListChangedNotificationSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { fileURLToPath } from "url";
 import { toolDefinitions, handleToolCall } from "./handlers.js";
+import { getPrompt, promptDefinitions } from "./prompts.js";
+import {
+  PROJECT_SUMMARY_URI,
+  fileResourceUri,
+  isKnownResourceUri,
+  listResources,
+  readResource,
+  resourceTemplates,
+} from "./resources.js";
+import { AllowedRoots, getEnvAllowedRoots } from "../core/sandbox.js";
+import { DiagnosticsStore, getDiagnosticsStore } from "../core/diagnostics-store.js";
+import { detectNorminette } from "../core/version.js";
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT, HTTP_TOKEN_ENV, HttpServerHandle, startHttpServer } from "./http.js";
+
+export interface ServerOptions {
+  /** Serve over HTTP (streamable HTTP and legacy SSE) instead of stdio */
+  http?: boolean;
+  port?: number;
+  host?: string;
+  /** Bearer token HTTP clients must send */
+  token?: string;
+  /** Names besides loopback ones and the host that HTTP clients may address the server by */
+  allowedHosts?: string[];
+}
+
+/**
+ * Resolves the roots tool paths are confined to: $NORMINETTE_MCP_ALLOWED_ROOTS when set,
+ * otherwise the client's file:// roots when it supports the roots capability and lists any,
+ * otherwise no restriction. Client roots are cached until the client reports a change.
+ */
+function createRootsProvider(server: Server): () => Promise<AllowedRoots> {
+  let clientRoots: Promise<AllowedRoots> | null = null;
+
+  server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    clientRoots = null;
+  });
+
+  return async () => {
+    const envRoots = getEnvAllowedRoots();
+    if (envRoots) {
+      return envRoots;
+    }
+    if (!server.getClientCapabilities()?.roots) {
+      return null;
+    }
+
+    clientRoots ??= server.listRoots().then(result => {
+      const roots = result.roots
+        .filter(root => root.uri.startsWith('file://'))
+        .map(root => fileURLToPath(root.uri));
+      return roots.length > 0 ? roots : null;
+    });
+    try {
+      return await clientRoots;
+    } catch (error) {
+      clientRoots = null;
+      throw new Error(`Could not get the client's roots: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+}
 
-export function createMCPServer() {
+/**
+ * Sends resources/updated for the subscribed resources whose content a change of the given
+ * files affects, and list_changed when files were added to or removed from the store.
+ * Returns a function that stops listening.
+ */
+function notifyResourceChanges(server: Server, diagnostics: DiagnosticsStore, subscriptions: Set<string>): () => void {
+  const listed = new Set(diagnostics.list().map(entry => entry.file));
+  // Notifications sent while no client is connected are dropped
+  const ignore = () => {};
+
+  return diagnostics.subscribe(files => {
+    if (subscriptions.has(PROJECT_SUMMARY_URI)) {
+      server.sendResourceUpdated({ uri: PROJECT_SUMMARY_URI }).catch(ignore);
+    }
+    let listChanged = false;
+    for (const file of files) {
+      const uri = fileResourceUri(file);
+      if (subscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch(ignore);
+      }
+      const stored = diagnostics.get(file) !== undefined;
+      if (stored !== listed.has(file)) {
+        listChanged = true;
+        if (stored) {
+          listed.add(file);
+        } else {
+          listed.delete(file);
+        }
+      }
+    }
+    if (listChanged) {
+      server.sendResourceListChanged().catch(ignore);
+    }
+  });
+}
+
+export function createMCPServer(diagnostics: DiagnosticsStore = getDiagnosticsStore()) {
   const server = new Server(
     {
       name: "norminette-mcp",
@@ -15,6 +120,8 @@ export function createMCPServer() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
       },
     }
   );
@@ -25,11 +132,71 @@ export function createMCPServer() {
     };
   });
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const allowedRoots = createRootsProvider(server);
+  const subscriptions = new Set<string>();
+  server.onclose = notifyResourceChanges(server, diagnostics, subscriptions);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: listResources({ diagnostics, allowedRoots: await allowedRoots() }),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates,
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri, { diagnostics, allowedRoots: await allowedRoots() });
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: promptDefinitions,
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    return getPrompt(request.params.name, request.params.arguments, {
+      signal: extra.signal,
+      allowedRoots: await allowedRoots(),
+      diagnostics,
+    });
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    if (!isKnownResourceUri(request.params.uri)) {
+      throw new Error(`Unknown resource: ${request.params.uri}`);
+    }
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
 
     try {
-      return await handleToolCall(name, args);
+      return await handleToolCall(name, args, {
+        signal: extra.signal,
+        allowedRoots: await allowedRoots(),
+        diagnostics,
+        onProgress: progressToken === undefined ? undefined : progress => {
+          extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, ...progress },
+          }).catch(() => {
+            // A lost progress notification must not fail the tool call
+          });
+        },
+      });
     } catch (error) {
       return {
         content: [
@@ -46,8 +213,76 @@ export function createMCPServer() {
   return server;
 }
 
-export async function startMCPServer() {
+/**
+ * Server options from the command line: --http, --port <n>, --host <address>, --token <token>
+ * and --allowed-host <name>, which can be repeated; the token defaults to $NORMINETTE_MCP_TOKEN. Any other argument is an error.
+ */
+export function parseServerArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): ServerOptions {
+  const options: ServerOptions = {};
+  const value = (index: number) => {
+    if (index + 1 >= argv.length || argv[index + 1].startsWith("--")) {
+      throw new Error(`Missing value for ${argv[index]}`);
+    }
+    return argv[index + 1];
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--http":
+        options.http = true;
+        break;
+      case "--port": {
+        const port = Number(value(i++));
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid port: ${argv[i]}`);
+        }
+        options.port = port;
+        break;
+      }
+      case "--host":
+        options.host = value(i++);
+        break;
+      case "--token":
+        options.token = value(i++);
+        break;
+      case "--allowed-host":
+        options.allowedHosts = [...(options.allowedHosts ?? []), value(i++)];
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if ((options.port !== undefined || options.host !== undefined || options.token !== undefined || options.allowedHosts) && !options.http) {
+    throw new Error("--port, --host, --token and --allowed-host require --http");
+  }
+  if (options.http && options.token === undefined && env[HTTP_TOKEN_ENV]) {
+    options.token = env[HTTP_TOKEN_ENV];
+  }
+  return options;
+}
+
+export async function startMCPServer(options: ServerOptions = {}): Promise<HttpServerHandle | null> {
+  // Detect norminette up front so a missing install is reported once at startup
+  detectNorminette().then(installation => {
+    if (installation.error) {
+      process.stderr.write(`Warning: ${installation.error}\n`);
+    }
+  });
+
+  if (options.http) {
+    const handle = await startHttpServer(() => createMCPServer(), {
+      port: options.port ?? DEFAULT_HTTP_PORT,
+      host: options.host ?? DEFAULT_HTTP_HOST,
+      token: options.token,
+      allowedHosts: options.allowedHosts,
+    });
+    process.stderr.write(`norminette-mcp listening on ${handle.url}/mcp (SSE: ${handle.url}/sse)${options.token ? ", bearer token required" : ""}\n`);
+    return handle;
+  }
+
   const server = createMCPServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  return null;
 }
\ No newline at end of file
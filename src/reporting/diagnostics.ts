@@ -0,0 +1,67 @@
+import * as path from "path";
+import { ContentFixResult, FixResult, GroupedResult, NorminetteError, NorminetteFailure, NorminetteResult } from "../types.js";
+import { ungroupErrors } from "./query.js";
+
+/**
+ * Any result a tool returns that report formats can render. Content fix results may leave out
+ * the fixed source, which is not part of any report.
+ */
+export type ReportableResult = NorminetteResult | GroupedResult | FixResult | Omit<ContentFixResult, "content">;
+
+export interface ReportOptions {
+  /** Paths inside this directory are reported relative to it */
+  root?: string;
+  /** norminette version, for formats that record the tool version */
+  toolVersion?: string | null;
+}
+
+/**
+ * What is left to report after a check or fix: for fix results, the errors that remain
+ */
+export interface Diagnostics {
+  errors: NorminetteError[];
+  notices: NorminetteError[];
+  failures: NorminetteFailure[];
+}
+
+export function collectDiagnostics(result: ReportableResult): Diagnostics {
+  if ('groups' in result) {
+    return { errors: ungroupErrors(result), notices: result.notices ?? [], failures: result.failures ?? [] };
+  }
+  if ('files_checked' in result) {
+    return { errors: result.errors, notices: result.notices ?? [], failures: result.failures ?? [] };
+  }
+  return {
+    errors: result.remaining_errors,
+    notices: [],
+    failures: 'failures' in result ? result.failures ?? [] : []
+  };
+}
+
+/**
+ * A path as reported: relative to root with '/' separators when inside it, unchanged otherwise
+ */
+export function reportPath(filePath: string, options: ReportOptions): string {
+  if (!options.root) {
+    return filePath;
+  }
+  const relativePath = path.relative(options.root, path.resolve(filePath));
+  if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return filePath;
+  }
+  return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Group diagnostics by file in order of first appearance
+ */
+export function groupByFile<T extends { file: string | null }>(entries: T[]): Map<string | null, T[]> {
+  const groups = new Map<string | null, T[]>();
+  for (const entry of entries) {
+    if (!groups.has(entry.file)) {
+      groups.set(entry.file, []);
+    }
+    groups.get(entry.file)!.push(entry);
+  }
+  return groups;
+}
@@ -0,0 +1,31 @@
+import * as yaml from "js-yaml";
+import { OutputFormat } from "../types.js";
+import { ReportOptions, ReportableResult, collectDiagnostics } from "./diagnostics.js";
+import { toSarif } from "./sarif.js";
+import { toCheckstyle, toJUnit } from "./xml.js";
+import { toGitHubAnnotations } from "./github.js";
+
+export const outputFormats: OutputFormat[] = ["yaml", "json", "sarif", "junit", "checkstyle", "github"];
+
+/**
+ * Render a check or fix result. YAML and JSON contain the whole result; the other formats
+ * contain the diagnostics only (for fix results, the errors that remain).
+ */
+export function formatResult(result: ReportableResult, format: OutputFormat = "yaml", options: ReportOptions = {}): string {
+  switch (format) {
+    case "yaml":
+      return yaml.dump(result, { indent: 2, noRefs: true });
+    case "json":
+      return JSON.stringify(result, null, 2);
+    case "sarif":
+      return JSON.stringify(toSarif(collectDiagnostics(result), options), null, 2);
+    case "junit":
+      return toJUnit(collectDiagnostics(result), options);
+    case "checkstyle":
+      return toCheckstyle(collectDiagnostics(result), options);
+    case "github":
+      return toGitHubAnnotations(collectDiagnostics(result), options);
+    default:
+      throw new Error(`Unknown format: ${format}. Available formats: ${outputFormats.join(', ')}`);
+  }
+}
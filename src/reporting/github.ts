@@ -0,0 +1,44 @@
+import { Diagnostics, ReportOptions, reportPath } from "./diagnostics.js";
+
+function escapeData(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeProperty(text: string): string {
+  return escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+function command(name: string, properties: Record<string, string | number | undefined>, message: string): string {
+  const rendered = Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${escapeProperty(String(value))}`)
+    .join(',');
+  return `::${name}${rendered ? ` ${rendered}` : ''}::${escapeData(message)}`;
+}
+
+/**
+ * GitHub Actions workflow commands: `::error` for errors and failures, `::notice` for notices
+ */
+export function toGitHubAnnotations(diagnostics: Diagnostics, options: ReportOptions = {}): string {
+  const lines = [
+    ...diagnostics.errors.map(error => command('error', {
+      file: reportPath(error.file, options),
+      line: error.line,
+      col: error.column,
+      title: `norminette ${error.error_code}`
+    }, error.description)),
+    ...diagnostics.notices.map(notice => command('notice', {
+      file: reportPath(notice.file, options),
+      line: notice.line,
+      col: notice.column,
+      title: `norminette ${notice.error_code}`
+    }, notice.description)),
+    ...diagnostics.failures.map(failure => command('error', {
+      file: failure.file ? reportPath(failure.file, options) : undefined,
+      line: failure.line,
+      col: failure.column,
+      title: `norminette ${failure.kind}`
+    }, failure.message))
+  ];
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
@@ -0,0 +1,10 @@
+export { formatResult, outputFormats } from "./format.js";
+export { collectDiagnostics, reportPath } from "./diagnostics.js";
+export type { ReportableResult, ReportOptions, Diagnostics } from "./diagnostics.js";
+export { toSarif } from "./sarif.js";
+export { toJUnit, toCheckstyle, escapeXml } from "./xml.js";
+export { toGitHubAnnotations } from "./github.js";
+export { getRuleMetadata, getKnownRuleCodes } from "./rules.js";
+export type { RuleMetadata, RuleCategory } from "./rules.js";
+export { queryResult, groupResult, ungroupErrors, groupByValues } from "./query.js";
+export type { ResultQuery } from "./query.js";
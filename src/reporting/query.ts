@@ -0,0 +1,160 @@
+import * as path from "path";
+import { ErrorGroup, GroupBy, GroupedResult, NorminetteError, NorminetteResult } from "../types.js";
+import { matchesAnyGlob } from "../core/glob.js";
+import { summarizeResult } from "../core/summary.js";
+
+export const groupByValues: GroupBy[] = ["file", "code"];
+
+/**
+ * Which errors of a check result to return, and in which order
+ */
+export interface ResultQuery {
+  /** Only errors and notices with these codes */
+  codes?: string[];
+  /** Only errors and notices in files matching these globs, see matchesGlob */
+  files?: string[];
+  /** Directory `files` globs are relative to; absolute paths are matched outside it */
+  root?: string;
+  /** Order of the errors: by file (the default) or by error code */
+  orderBy?: GroupBy;
+  /** Maximum number of errors returned; all when omitted */
+  limit?: number;
+  /** next_cursor of the previous page */
+  cursor?: string;
+  /** Count errors per file under summary.by_file */
+  statistics?: boolean;
+}
+
+type SortKey = (string | number)[];
+
+interface Cursor {
+  order: GroupBy;
+  /** Sort key of the last error returned */
+  after: SortKey;
+  /** Errors with exactly that key already returned */
+  skip: number;
+}
+
+function sortKey(error: NorminetteError, order: GroupBy): SortKey {
+  return order === "code"
+    ? [error.error_code, error.file, error.line, error.column, error.description]
+    : [error.file, error.line, error.column, error.error_code, error.description];
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) {
+      return -1;
+    }
+    if (a[i] > b[i]) {
+      return 1;
+    }
+  }
+  return 0;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(encoded: string, order: GroupBy): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error(`Invalid cursor: ${encoded}`);
+  }
+  if (!cursor || !Array.isArray(cursor.after) || cursor.after.length !== 5 || typeof cursor.skip !== 'number') {
+    throw new Error(`Invalid cursor: ${encoded}`);
+  }
+  if (cursor.order !== order) {
+    throw new Error(`The cursor belongs to a query ordered by ${cursor.order}, not ${order}`);
+  }
+  return cursor;
+}
+
+/**
+ * Filter, order and paginate the errors of a check result. Pages are cut at a position in a
+ * stable ordering rather than at an offset, so a cursor stays valid when errors before it are
+ * fixed between calls. The summary describes every error matching the filters, not just the page.
+ */
+export function queryResult(result: NorminetteResult, query: ResultQuery): NorminetteResult {
+  const order = query.orderBy ?? "file";
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 0)) {
+    throw new Error("limit must be a non-negative integer");
+  }
+
+  const relativeFile = (file: string) => {
+    if (!query.root) {
+      return file;
+    }
+    const relativePath = path.relative(query.root, path.resolve(file));
+    return relativePath.startsWith('..') || path.isAbsolute(relativePath) ? file : relativePath;
+  };
+  const selected = (entry: NorminetteError) =>
+    (!query.codes || query.codes.includes(entry.error_code)) &&
+    (!query.files || matchesAnyGlob(relativeFile(entry.file), query.files));
+
+  const errors = result.errors.filter(selected)
+    .sort((a, b) => compareKeys(sortKey(a, order), sortKey(b, order)));
+  const notices = result.notices?.filter(selected);
+
+  let start = 0;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, order);
+    const lower = errors.findIndex(error => compareKeys(sortKey(error, order), cursor.after) >= 0);
+    const upper = errors.findIndex(error => compareKeys(sortKey(error, order), cursor.after) > 0);
+    start = lower === -1 ? errors.length : Math.min(lower + cursor.skip, upper === -1 ? errors.length : upper);
+  }
+  const end = query.limit === undefined ? errors.length : Math.min(errors.length, start + query.limit);
+  const page = errors.slice(start, end);
+
+  const queried: NorminetteResult = {
+    ...result,
+    summary: summarizeResult({ ...result, errors, notices }, query.statistics),
+    errors: page
+  };
+  if (notices) {
+    queried.notices = notices;
+  }
+
+  if (query.limit !== undefined || query.cursor) {
+    queried.page = { returned: page.length, total: errors.length };
+    if (end < errors.length && page.length > 0) {
+      const after = sortKey(page[page.length - 1], order);
+      // Count every error with the last key returned so far, including earlier pages
+      const skip = errors.slice(0, end).filter(error => compareKeys(sortKey(error, order), after) === 0).length;
+      queried.page.next_cursor = encodeCursor({ order, after, skip });
+    }
+  }
+  return queried;
+}
+
+/**
+ * List the errors of a result in groups of one file or one error code, in order of appearance
+ */
+export function groupResult(result: NorminetteResult, groupBy: GroupBy): GroupedResult {
+  const groups = new Map<string, ErrorGroup>();
+  for (const error of result.errors) {
+    const key = groupBy === "code" ? error.error_code : error.file;
+    if (!groups.has(key)) {
+      groups.set(key, { key, count: 0, errors: [] });
+    }
+    const group = groups.get(key)!;
+    const { file, error_type, error_code, ...rest } = error;
+    group.errors.push(groupBy === "code" ? { file, ...rest } : { error_type, error_code, ...rest });
+    group.count++;
+  }
+
+  const { errors, ...rest } = result;
+  return { ...rest, group_by: groupBy, groups: [...groups.values()] };
+}
+
+/**
+ * The errors of a grouped result as one list again
+ */
+export function ungroupErrors(result: GroupedResult): NorminetteError[] {
+  return result.groups.flatMap(group => group.errors.map(error => (result.group_by === "code"
+    ? { ...error, error_type: group.key, error_code: group.key }
+    : { file: group.key, ...error }) as NorminetteError));
+}
@@ -0,0 +1,95 @@
+import { CLANG_FORMAT_FIXER } from "../fixing/selection.js";
+import { structuralFixers } from "../fixing/structural/structural-fixes.js";
+import { defaultFormattingRules } from "../fixing/formatting/token-based/rules.js";
+
+export type RuleCategory = "header" | "whitespace" | "layout" | "functions" | "declarations" | "naming" | "preprocessor" | "control" | "other";
+
+/**
+ * What a norminette error code means, for report formats that describe their rules
+ */
+export interface RuleMetadata {
+  code: string;
+  description: string;
+  category: RuleCategory;
+  /** Fixers that can address the error, by fixer name */
+  fixers: string[];
+}
+
+/** clangFormat: whether reformatting the file with clang-format addresses the error */
+type RuleEntry = [description: string, category: RuleCategory, clangFormat?: boolean];
+
+const rules: Record<string, RuleEntry> = {
+  INVALID_HEADER: ["Missing or invalid 42 header", "header"],
+
+  SPACE_BEFORE_FUNC: ["Space before function name", "whitespace"],
+  SPACE_REPLACE_TAB: ["Found space when expecting tab", "whitespace", true],
+  TAB_REPLACE_SPACE: ["Found tab when expecting space", "whitespace", true],
+  SPACE_AFTER_KW: ["Missing space after keyword", "whitespace", true],
+  CONSECUTIVE_SPC: ["Two or more consecutive spaces", "whitespace", true],
+  SPC_BEFORE_NL: ["Space before newline", "whitespace", true],
+  SPACE_EMPTY_LINE: ["Space on empty line", "whitespace", true],
+  MIXED_SPACE_TAB: ["Mixed spaces and tabs", "whitespace", true],
+  TOO_FEW_TAB: ["Missing tabs for indent level", "whitespace", true],
+  TOO_MANY_TAB: ["Extra tabs for indent level", "whitespace", true],
+
+  EMPTY_LINE_FILE_START: ["Empty line at start of file", "layout", true],
+  EMPTY_LINE_EOF: ["Empty line at end of file", "layout", true],
+  EMPTY_LINE_FUNCTION: ["Empty line in function", "layout"],
+  CONSECUTIVE_NEWLINES: ["Consecutive newlines", "layout", true],
+  NEWLINE_PRECEDES_FUNC: ["Functions must be separated by a newline", "layout", true],
+  LINE_TOO_LONG: ["Line too long", "layout"],
+  BRACE_SHOULD_EOL: ["Expected newline after brace", "layout", true],
+  BRACE_NEWLINE: ["Expected newline before brace", "layout", true],
+  TOO_MANY_INSTR: ["Too many instructions on a single line", "layout"],
+
+  TOO_MANY_LINES: ["Function has more than 25 lines", "functions"],
+  TOO_MANY_FUNCS: ["Too many functions in file", "functions"],
+  TOO_MANY_ARGS: ["Function has more than 4 arguments", "functions"],
+  TOO_MANY_VARS_FUNC: ["Too many variables declarations in a function", "functions"],
+  NO_ARGS_VOID: ["Empty function argument requires void", "functions"],
+  RETURN_PARENTHESIS: ["Return value must be in parenthesis", "functions"],
+  MISALIGNED_FUNC_DECL: ["Misaligned function declaration", "functions"],
+
+  MISALIGNED_VAR_DECL: ["Misaligned variable declaration", "declarations"],
+  VAR_DECL_START_FUNC: ["Variable declaration not at start of function", "declarations"],
+  WRONG_SCOPE_VAR: ["Variable declared in incorrect scope", "declarations"],
+  DECL_ASSIGN_LINE: ["Declaration and assignation on a single line", "declarations"],
+  MULT_DECL_LINE: ["Multiple declarations on a single line", "declarations"],
+  FORBIDDEN_TYPEDEF: ["Typedef declarations are not allowed in .c files", "declarations"],
+
+  FORBIDDEN_CHAR_NAME: ["User defined identifiers should contain only lowercase characters, digits or '_'", "naming"],
+  USER_DEFINED_TYPEDEF: ["User defined typedef must start with t_", "naming"],
+  GLOBAL_VAR_NAMING: ["Global variable must start with g_", "naming"],
+  MACRO_NAME_CAPITAL: ["Macro name must be capitalized", "naming"],
+
+  PREPROC_CONSTANT: ["Preprocessor statement must only contain constant defines", "preprocessor"],
+  PREPROC_BAD_INDENT: ["Bad preprocessor indentation", "preprocessor"],
+  INCLUDE_HEADER_ONLY: [".c file includes are forbidden", "preprocessor"],
+  HEADER_PROT_ALL: ["Header protection must include all the instructions", "preprocessor"],
+  HEADER_PROT_NAME: ["Wrong header protection name", "preprocessor"],
+
+  FORBIDDEN_CS: ["Forbidden control structure", "control"],
+  TERNARY_FBIDDEN: ["Ternaries are forbidden", "control"],
+  WRONG_SCOPE_COMMENT: ["Comment is invalid in this scope", "control"]
+};
+
+/**
+ * Metadata for an error code. Codes missing from the table (e.g. from a newer norminette)
+ * fall back to the description norminette reported.
+ */
+export function getRuleMetadata(code: string, reportedDescription?: string): RuleMetadata {
+  const [description, category, clangFormat] = rules[code] ?? [reportedDescription ?? code, "other"];
+  const fixers = [
+    ...structuralFixers.filter(fixer => fixer.errorCodes.includes(code)).map(fixer => fixer.name),
+    ...(clangFormat ? [CLANG_FORMAT_FIXER] : []),
+    ...defaultFormattingRules.filter(rule => rule.errorCodes.includes(code)).map(rule => rule.name)
+  ];
+  return { code, description, category, fixers };
+}
+
+/**
+ * Every error code with known metadata
+ */
+export function getKnownRuleCodes(): string[] {
+  return Object.keys(rules);
+}
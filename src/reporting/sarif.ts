@@ -0,0 +1,96 @@
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { Diagnostics, ReportOptions, reportPath } from "./diagnostics.js";
+import { getRuleMetadata } from "./rules.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+function artifactLocation(file: string, options: ReportOptions) {
+  const reported = reportPath(file, options);
+  if (reported !== file || !path.isAbsolute(file)) {
+    // Relative to the root the report was made for
+    return { uri: encodeURI(reported.split(path.sep).join('/')), ...(options.root ? { uriBaseId: "%SRCROOT%" } : {}) };
+  }
+  return { uri: pathToFileURL(file).href };
+}
+
+/**
+ * A SARIF 2.1.0 log with one run. Every error code that occurs is described under
+ * tool.driver.rules; failures use the rule id `norminette/<kind>`.
+ */
+export function toSarif(diagnostics: Diagnostics, options: ReportOptions = {}): object {
+  const ruleIds: string[] = [];
+  const rules: object[] = [];
+  const ruleIndex = (id: string, describe: () => object) => {
+    let index = ruleIds.indexOf(id);
+    if (index === -1) {
+      index = ruleIds.push(id) - 1;
+      rules.push(describe());
+    }
+    return index;
+  };
+
+  const results: object[] = [];
+  for (const [level, entries] of [["error", diagnostics.errors], ["note", diagnostics.notices]] as const) {
+    for (const entry of entries) {
+      const metadata = getRuleMetadata(entry.error_code, entry.description);
+      results.push({
+        ruleId: entry.error_code,
+        ruleIndex: ruleIndex(entry.error_code, () => ({
+          id: metadata.code,
+          shortDescription: { text: metadata.description },
+          defaultConfiguration: { level },
+          properties: { category: metadata.category, fixers: metadata.fixers }
+        })),
+        level,
+        message: { text: entry.description },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: artifactLocation(entry.file, options),
+            region: { startLine: entry.line, startColumn: entry.column }
+          }
+        }]
+      });
+    }
+  }
+
+  for (const failure of diagnostics.failures) {
+    const id = `norminette/${failure.kind}`;
+    const result: Record<string, unknown> = {
+      ruleId: id,
+      ruleIndex: ruleIndex(id, () => ({
+        id,
+        shortDescription: { text: `norminette could not check the file (${failure.kind})` },
+        defaultConfiguration: { level: "error" }
+      })),
+      level: "error",
+      message: { text: failure.message }
+    };
+    if (failure.file) {
+      result.locations = [{
+        physicalLocation: {
+          artifactLocation: artifactLocation(failure.file, options),
+          ...(failure.line !== undefined ? { region: { startLine: failure.line, startColumn: failure.column ?? 1 } } : {})
+        }
+      }];
+    }
+    results.push(result);
+  }
+
+  const run: Record<string, unknown> = {
+    tool: {
+      driver: {
+        name: "norminette",
+        informationUri: "https://github.com/42School/norminette",
+        ...(options.toolVersion ? { version: options.toolVersion } : {}),
+        rules
+      }
+    },
+    results
+  };
+  if (options.root) {
+    run.originalUriBaseIds = { "%SRCROOT%": { uri: pathToFileURL(options.root + path.sep).href } };
+  }
+
+  return { $schema: SARIF_SCHEMA, version: "2.1.0", runs: [run] };
+}
@@ -0,0 +1,106 @@
+import { NorminetteError } from "../types.js";
+import { Diagnostics, ReportOptions, groupByFile, reportPath } from "./diagnostics.js";
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values).map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`).join('');
+}
+
+function describeError(error: NorminetteError): string {
+  return `${error.error_code} (line ${error.line}, col ${error.column}): ${error.description}`;
+}
+
+/**
+ * JUnit XML with one test case per error or failure, named after the file. A run without
+ * errors is a single passing test case, so CI still records that the check ran.
+ */
+export function toJUnit(diagnostics: Diagnostics, options: ReportOptions = {}): string {
+  const cases: string[] = [];
+
+  for (const error of diagnostics.errors) {
+    const file = reportPath(error.file, options);
+    cases.push(
+      `    <testcase${attributes({ classname: file, name: `${error.error_code} at ${file}:${error.line}:${error.column}` })}>\n` +
+      `      <failure${attributes({ type: error.error_code, message: error.description })}>${escapeXml(describeError(error))}</failure>\n` +
+      `    </testcase>`
+    );
+  }
+  for (const failure of diagnostics.failures) {
+    const file = failure.file ? reportPath(failure.file, options) : 'norminette';
+    cases.push(
+      `    <testcase${attributes({ classname: file, name: `${failure.kind} in ${file}` })}>\n` +
+      `      <error${attributes({ type: failure.kind, message: failure.message })}>${escapeXml(failure.traceback ?? failure.message)}</error>\n` +
+      `    </testcase>`
+    );
+  }
+  if (cases.length === 0) {
+    cases.push(`    <testcase${attributes({ classname: 'norminette', name: 'norminette' })}/>`);
+  }
+
+  const counts = {
+    name: 'norminette',
+    tests: cases.length,
+    failures: diagnostics.errors.length,
+    errors: diagnostics.failures.length
+  };
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attributes(counts)}>`,
+    `  <testsuite${attributes(counts)}>`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Checkstyle XML, one <file> element per file with errors (severity error) and notices (info)
+ */
+export function toCheckstyle(diagnostics: Diagnostics, options: ReportOptions = {}): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">'];
+  const entries = [
+    ...diagnostics.errors.map(error => ({ ...error, severity: 'error' })),
+    ...diagnostics.notices.map(notice => ({ ...notice, severity: 'info' }))
+  ];
+
+  for (const [file, fileEntries] of groupByFile(entries)) {
+    lines.push(`  <file${attributes({ name: reportPath(file!, options) })}>`);
+    for (const entry of fileEntries) {
+      lines.push(`    <error${attributes({
+        line: entry.line,
+        column: entry.column,
+        severity: entry.severity,
+        message: entry.description,
+        source: `norminette.${entry.error_code}`
+      })}/>`);
+    }
+    lines.push('  </file>');
+  }
+  // Failures of the whole run (a crash, unrecognized output) go under a file named after the tool
+  for (const [file, failures] of groupByFile(diagnostics.failures)) {
+    lines.push(`  <file${attributes({ name: file === null ? 'norminette' : reportPath(file, options) })}>`);
+    for (const failure of failures) {
+      lines.push(`    <error${attributes({
+        line: failure.line ?? 1,
+        ...(failure.column !== undefined ? { column: failure.column } : {}),
+        severity: 'error',
+        message: failure.message,
+        source: `norminette.${failure.kind}`
+      })}/>`);
+    }
+    lines.push('  </file>');
+  }
+
+  lines.push('</checkstyle>', '');
+  return lines.join('\n');
+}
@@ -5,20 +5,259 @@ export interface NorminetteError {
   error_type: string;
   error_code: string;
   description: string;
+  /** Source around the line with a caret under the column, when context was requested */
+  snippet?: string;
+}
+
+export type NorminetteFailureKind =
+  | "unrecognized_token"
+  | "parse_error"
+  | "file_error"
+  | "crash"
+  | "unrecognized_output";
+
+/**
+ * Something norminette reported that is not a norm error: a file it could not tokenize or
+ * parse, a file it refused, a crash of norminette itself, or output the parser did not understand
+ */
+export interface NorminetteFailure {
+  /** File the failure belongs to, or null when it concerns the whole run */
+  file: string | null;
+  kind: NorminetteFailureKind;
+  message: string;
+  line?: number;
+  column?: number;
+  /** Python traceback of a crash */
+  traceback?: string;
 }
 
 export interface NorminetteResult {
-  status: "OK" | "Error";
+  /** "Crashed" when norminette itself failed, so the errors (if any) are incomplete */
+  status: "OK" | "Error" | "Crashed";
+  files_checked: number;
+  summary: ResultSummary;
+  errors: NorminetteError[];
+  /** Notice: lines, which do not fail the norm */
+  notices?: NorminetteError[];
+  failures?: NorminetteFailure[];
+  /** Files and directories left out of a directory check, see SkippedFile */
+  skipped?: SkippedFile[];
+  /** Files norminette did not finish checking within the time limit */
+  timed_out?: string[];
+  /** Lines printed by norminette in debug mode (-d) */
+  debug_output?: string[];
+  /** How the errors compared to a baseline; only errors not in the baseline are listed */
+  baseline?: BaselineSummary;
+  /** Where this page of errors is in the whole list, when the errors were paginated */
+  page?: ResultPage;
+}
+
+/**
+ * Counts describing a check result, so large results can be judged without reading every error
+ */
+export interface ResultSummary {
+  /** One sentence, e.g. "Checked 12 files, found 30 errors, 2 notices" */
+  message: string;
   files_checked: number;
+  files_with_errors: number;
+  errors: number;
+  notices: number;
+  /** Files norminette could not check */
+  failures: number;
+  timed_out: number;
+  /** Errors per error code, most frequent first */
+  by_code: Record<string, number>;
+  /** Errors per file, most first; only when requested */
+  by_file?: Record<string, number>;
+  /** The files with the most errors, at most five */
+  worst_files: { file: string; errors: number }[];
+}
+
+/**
+ * The latest check of one file, as kept by the DiagnosticsStore
+ */
+export interface FileDiagnostics {
+  file: string;
+  status: NorminetteResult["status"];
   errors: NorminetteError[];
-  summary: string;
+  notices: NorminetteError[];
+  failures: NorminetteFailure[];
+  /** ISO timestamp of the check */
+  checked_at: string;
 }
 
+export interface ResultPage {
+  /** Errors in this page */
+  returned: number;
+  /** Errors matching the filters, across all pages */
+  total: number;
+  /** Pass as `cursor` to get the next page; absent on the last page */
+  next_cursor?: string;
+}
+
+export type GroupBy = "file" | "code";
+
+/**
+ * Errors sharing a file or an error code. The shared field is left out of each error.
+ */
+export interface ErrorGroup {
+  key: string;
+  count: number;
+  errors: Partial<NorminetteError>[];
+}
+
+/**
+ * A check result whose errors are listed in groups instead of one list
+ */
+export interface GroupedResult extends Omit<NorminetteResult, "errors"> {
+  group_by: GroupBy;
+  groups: ErrorGroup[];
+}
+
+/**
+ * An accepted error, identified by what the offending line says rather than where it is
+ */
+export interface BaselineEntry {
+  /** Relative to the directory of the baseline file, '/'-separated */
+  file: string;
+  error_code: string;
+  /** Hash of the offending line with whitespace normalized, see fingerprintLine */
+  fingerprint: string;
+  /** Line number when the baseline was created, for humans only */
+  line: number;
+  description: string;
+}
+
+/**
+ * Contents of a baseline file
+ */
+export interface Baseline {
+  version: 1;
+  created_at: string;
+  norminette_version: string | null;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineSummary {
+  file: string;
+  /** Errors suppressed because the baseline accepts them */
+  matched: number;
+  /** Errors not in the baseline, the ones reported */
+  new: number;
+  /** Baseline entries for checked files that no longer occur, i.e. were fixed */
+  stale: number;
+  stale_entries?: BaselineEntry[];
+}
+
+/**
+ * A file or directory excluded while collecting the C files of a directory
+ */
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+export interface FilePreview {
+  file: string;
+  diff: string;
+  remaining_errors: NorminetteError[];
+}
+
+export type FixStopReason = "converged" | "no_changes" | "no_progress" | "cycle" | "max_passes";
+
+export type FixStage = "structural" | "clang-format" | "token-formatter";
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * One fixer application: a StructuralFixer, a TokenFormatterRule or clang-format
+ */
+export interface AppliedFix {
+  fixer: string;
+  stage: FixStage;
+  file: string;
+  pass: number;
+  /** Lines touched in the content produced by this fix */
+  line_range: LineRange | null;
+  targeted_errors: NorminetteError[];
+  eliminated_errors: NorminetteError[];
+}
+
+/**
+ * An error that was not present before a stage ran but was reported after it
+ */
+export interface IntroducedError {
+  stage: FixStage;
+  pass: number;
+  error: NorminetteError;
+}
+
+export interface FixPass {
+  pass: number;
+  errors_before: number;
+  errors_after: number;
+  fixes: AppliedFix[];
+  introduced_errors: IntroducedError[];
+  accepted: boolean;
+}
+
+export interface FileFixReport {
+  file: string;
+  /** Fixes from accepted passes */
+  fixes: AppliedFix[];
+  /** Remaining errors that a fixer targeted but could not eliminate */
+  unresolved_errors: NorminetteError[];
+  introduced_errors: IntroducedError[];
+  passes: FixPass[];
+  stop_reason: FixStopReason;
+}
+
+/**
+ * Result of fixing in-memory source text; nothing is read from or written to disk
+ */
+export interface ContentFixResult {
+  filename: string;
+  /** The fixed source text (the input unchanged when nothing could be fixed) */
+  content: string;
+  changed: boolean;
+  /** Unified diff from the input to the fixed content, empty when unchanged */
+  diff: string;
+  original_error_count: number;
+  fixes: AppliedFix[];
+  unresolved_errors: NorminetteError[];
+  introduced_errors: IntroducedError[];
+  remaining_errors: NorminetteError[];
+  passes: FixPass[];
+  stop_reason: FixStopReason;
+  /** Why the input could not be fixed, e.g. norminette cannot parse it */
+  failures?: NorminetteFailure[];
+}
+
+/**
+ * How tool results are rendered
+ */
+export type OutputFormat = "yaml" | "json" | "sarif" | "junit" | "checkstyle" | "github";
+
 export interface FixResult {
   original_errors: number;
-  fixes_applied: any[];
+  fixes_applied: FileFixReport[];
   remaining_errors: NorminetteError[];
   final_error_count: number;
+  /** "completed", or "cancelled" / "failed" when the run was interrupted, see error and unfinished */
   status: string;
+  /** Why an interrupted run stopped */
+  error?: string;
+  /** Files an interrupted run left untouched; the fixed ones are in fixes_applied and the session */
+  unfinished?: string[];
+  dry_run?: boolean;
+  previews?: FilePreview[];
+  session_id?: string;
+  skipped?: SkippedFile[];
+  /** Files left untouched because a norminette check of them timed out */
+  timed_out?: string[];
+  /** Why files were left untouched because norminette could not tokenize, parse or check them */
+  failures?: NorminetteFailure[];
 }
-
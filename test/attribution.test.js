@@ -0,0 +1,63 @@
+import { strict as assert } from 'assert';
+import { compareErrors, mapErrorLines, intersectErrors } from '../dist/index.js';
+
+function error(code, line) {
+  return {
+    file: 'test.c',
+    line,
+    column: 1,
+    error_type: code,
+    error_code: code,
+    description: code
+  };
+}
+
+describe('Fix Attribution', () => {
+
+  describe('mapErrorLines', () => {
+    it('should follow errors past inserted lines', () => {
+      const mapped = mapErrorLines([error('SPACE_BEFORE_FUNC', 1)], 'int main(void)\n', 'header\n\nint main(void)\n');
+      assert.equal(mapped.length, 1);
+      assert.equal(mapped[0].line, 3);
+    });
+
+    it('should keep errors on rewritten lines', () => {
+      const mapped = mapErrorLines([error('SPACE_REPLACE_TAB', 2)], '{\n\tint x;\n}\n', '{\n\tint\tx;\n}\n');
+      assert.equal(mapped[0].line, 2);
+    });
+
+    it('should drop errors on deleted lines', () => {
+      const mapped = mapErrorLines([error('CONSECUTIVE_NEWLINES', 2)], 'a\n\n\nb\n', 'a\n\nb\n');
+      assert.equal(mapped.length, 1);
+      assert.equal(mapped[0].line, 2);
+      assert.equal(mapErrorLines([error('X', 2)], 'a\nb\nc\n', 'a\nc\n').length, 0);
+    });
+  });
+
+  describe('compareErrors', () => {
+    it('should separate eliminated and introduced errors', () => {
+      const before = [error('INVALID_HEADER', 1), error('SPACE_BEFORE_FUNC', 1)];
+      const after = [error('SPACE_BEFORE_FUNC', 3), error('TOO_MANY_TAB', 4)];
+      const result = compareErrors(before, after, 'int main(void)\n{\n', 'header\n\nint main(void)\n{\n');
+
+      assert.deepEqual(result.eliminated, [before[0]]);
+      assert.deepEqual(result.introduced, [after[1]]);
+    });
+
+    it('should match repeated errors one-to-one', () => {
+      const before = [error('SPACE_REPLACE_TAB', 1), error('SPACE_REPLACE_TAB', 1)];
+      const after = [error('SPACE_REPLACE_TAB', 1)];
+      const result = compareErrors(before, after, 'int a, b;\n', 'int a, b;\n');
+
+      assert.equal(result.eliminated.length, 1);
+      assert.equal(result.introduced.length, 0);
+    });
+  });
+
+  describe('intersectErrors', () => {
+    it('should keep errors also present in the reference list', () => {
+      const errors = [error('SPACE_REPLACE_TAB', 3), error('TOO_MANY_LINES', 10)];
+      assert.deepEqual(intersectErrors(errors, [error('SPACE_REPLACE_TAB', 3)]), [errors[0]]);
+    });
+  });
+});
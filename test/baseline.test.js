@@ -0,0 +1,123 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createBaseline, matchBaseline, writeBaseline, loadBaseline, fingerprintLine, checkPath, detectNorminette } from '../dist/index.js';
+
+const error = (file, line, code) => ({ file, line, column: 1, error_type: code, error_code: code, description: code });
+
+describe('Baseline', () => {
+  let root;
+  let mainFile;
+  let baselinePath;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-baseline-'));
+    mainFile = path.join(root, 'src', 'main.c');
+    baselinePath = path.join(root, '.norminette-baseline.json');
+    fs.mkdirSync(path.dirname(mainFile));
+    fs.writeFileSync(mainFile, 'int main(void)\n{\n    int x;\n    return (0);\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should ignore indentation and spacing in fingerprints', () => {
+    assert.equal(fingerprintLine('    int  x;'), fingerprintLine('\tint x;  '));
+    assert.notEqual(fingerprintLine('int x;'), fingerprintLine('int y;'));
+  });
+
+  it('should store files relative to the baseline and round-trip through disk', () => {
+    const baseline = createBaseline([error(mainFile, 3, 'SPACE_REPLACE_TAB')], baselinePath, '3.3.55');
+    writeBaseline(baselinePath, baseline);
+
+    const loaded = loadBaseline(baselinePath);
+    assert.equal(loaded.entries[0].file, 'src/main.c');
+    assert.equal(loaded.norminette_version, '3.3.55');
+  });
+
+  it('should match errors that moved to another line', () => {
+    const baseline = createBaseline([error(mainFile, 1, 'INVALID_HEADER'), error(mainFile, 3, 'SPACE_REPLACE_TAB')], baselinePath, null);
+    fs.writeFileSync(mainFile, '\n\nint main(void)\n{\n    int x;\n    return (0);\n}\n');
+
+    const { errors, summary } = matchBaseline(
+      [error(mainFile, 1, 'INVALID_HEADER'), error(mainFile, 5, 'SPACE_REPLACE_TAB')],
+      baseline, baselinePath, [mainFile]
+    );
+    assert.deepEqual(errors, []);
+    assert.deepEqual(summary, { file: baselinePath, matched: 2, new: 0, stale: 0 });
+  });
+
+  it('should report new errors and stale entries', () => {
+    const baseline = createBaseline([error(mainFile, 3, 'SPACE_REPLACE_TAB')], baselinePath, null);
+    fs.writeFileSync(mainFile, 'int main(void)\n{\n\tint\tx;\n    return (0);\n}\n');
+
+    const { errors, summary } = matchBaseline([error(mainFile, 4, 'SPACE_REPLACE_TAB')], baseline, baselinePath, [mainFile]);
+    assert.equal(errors.length, 1);
+    assert.equal(summary.new, 1);
+    assert.equal(summary.stale, 1);
+    assert.equal(summary.stale_entries[0].line, 3);
+  });
+
+  it('should match duplicate entries one for one', () => {
+    fs.writeFileSync(mainFile, 'int x;\nint x;\nint x;\n');
+    const baseline = createBaseline([error(mainFile, 1, 'GLOBAL_VAR'), error(mainFile, 2, 'GLOBAL_VAR')], baselinePath, null);
+
+    const { summary } = matchBaseline(
+      [1, 2, 3].map(line => error(mainFile, line, 'GLOBAL_VAR')),
+      baseline, baselinePath, [mainFile]
+    );
+    assert.equal(summary.matched, 2);
+    assert.equal(summary.new, 1);
+  });
+
+  it('should not count entries of unchecked files as stale', () => {
+    const other = path.join(root, 'src', 'other.c');
+    fs.writeFileSync(other, 'int y;\n');
+    const baseline = createBaseline([error(other, 1, 'GLOBAL_VAR')], baselinePath, null);
+
+    const { summary } = matchBaseline([], baseline, baselinePath, [mainFile]);
+    assert.equal(summary.stale, 0);
+  });
+
+  it('should reject files that are not baselines', () => {
+    fs.writeFileSync(baselinePath, '{"entries": 3}');
+    assert.throws(() => loadBaseline(baselinePath), /Invalid baseline file/);
+  });
+});
+
+describe('Baseline checks with norminette', function() {
+  this.timeout(20000);
+
+  let root;
+  let baselinePath;
+
+  before(async function() {
+    if (!(await detectNorminette()).installed) {
+      console.log('  Skipping baseline check tests - norminette not available');
+      this.skip();
+    }
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-baseline-check-'));
+    baselinePath = path.join(root, '.norminette-baseline.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should not count entries of files norminette could not tokenize as fixed', async () => {
+    const file = path.join(root, 'main.c');
+    fs.writeFileSync(file, 'int main(void)\n{\n    int x;\n    return (0);\n}\n');
+    writeBaseline(baselinePath, createBaseline([error(file, 3, 'SPACE_REPLACE_TAB')], baselinePath, null));
+
+    fs.writeFileSync(file, 'int main(void)\n{\n    int x;\n    return (`0);\n}\n');
+    const result = await checkPath(root, { baseline: baselinePath, cache: null });
+
+    assert.equal(result.failures.length, 1);
+    assert.equal(result.baseline.stale, 0);
+  });
+});
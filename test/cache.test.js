@@ -0,0 +1,82 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResultCache, createCacheKey, validateConfig } from '../dist/index.js';
+
+const entry = code => ({
+  errors: [{ line: 1, column: 1, error_code: code, description: code }],
+  notices: [],
+  failures: []
+});
+
+describe('Result Cache', () => {
+
+  describe('createCacheKey', () => {
+    const base = { content: 'int x;\n', filePath: '/a/main.c', version: '3.3.55', flags: [] };
+
+    it('should ignore the name of a .c file', () => {
+      assert.equal(createCacheKey(base), createCacheKey({ ...base, filePath: '/b/other.c' }));
+    });
+
+    it('should change with content, version, flags and file kind', () => {
+      const key = createCacheKey(base);
+      assert.notEqual(key, createCacheKey({ ...base, content: 'int y;\n' }));
+      assert.notEqual(key, createCacheKey({ ...base, version: '3.3.56' }));
+      assert.notEqual(key, createCacheKey({ ...base, flags: ['-R', 'CheckDefine'] }));
+      assert.notEqual(key, createCacheKey({ ...base, filePath: '/a/main.h' }));
+    });
+
+    it('should include the basename of a header', () => {
+      const header = { ...base, filePath: '/a/libft.h' };
+      assert.equal(createCacheKey(header), createCacheKey({ ...header, filePath: '/b/libft.h' }));
+      assert.notEqual(createCacheKey(header), createCacheKey({ ...header, filePath: '/a/utils.h' }));
+    });
+  });
+
+  describe('ResultCache', () => {
+    it('should evict the least recently used entry', () => {
+      const cache = new ResultCache({ maxEntries: 2 });
+      cache.set('a', entry('A'));
+      cache.set('b', entry('B'));
+      cache.get('a');
+      cache.set('c', entry('C'));
+
+      assert.equal(cache.size, 2);
+      assert.equal(cache.get('b'), undefined);
+      assert.deepEqual(cache.get('a'), entry('A'));
+    });
+
+    it('should persist entries across instances when flushed', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-cache-'));
+      const persistPath = path.join(dir, 'nested', 'results.json');
+      try {
+        const first = new ResultCache({ persistPath });
+        first.set('a', entry('A'));
+        first.flush();
+
+        const second = new ResultCache({ persistPath });
+        assert.deepEqual(second.get('a'), entry('A'));
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should start empty from a corrupt cache file', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-cache-'));
+      const persistPath = path.join(dir, 'results.json');
+      try {
+        fs.writeFileSync(persistPath, '{not json');
+        assert.equal(new ResultCache({ persistPath }).size, 0);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('cache config', () => {
+    it('should reject non-boolean settings', () => {
+      assert.throws(() => validateConfig({ cache: { persist: 'yes' } }, 'test.yml'), /cache\.persist must be true or false/);
+    });
+  });
+});
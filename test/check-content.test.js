@@ -0,0 +1,81 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { checkContent, fixContent, createMCPServer, detectNorminette } from '../dist/index.js';
+
+describe('Content Check', () => {
+  it('should require a C source or header virtual filename', async () => {
+    await assert.rejects(checkContent('int x;\n', 'notes.txt'), /must end in \.c or \.h/);
+  });
+});
+
+describe('Content Fix', () => {
+  it('should require a C source or header virtual filename', async () => {
+    await assert.rejects(fixContent('int x;\n', 'notes.txt'), /must end in \.c or \.h/);
+  });
+
+  it('should reject a max_passes that is not a positive integer', async () => {
+    await assert.rejects(fixContent('int x;\n', 'a.c', { maxPasses: 0 }), /max_passes must be a positive integer: 0/);
+  });
+});
+
+describe('Content Check and Fix with norminette', function() {
+  this.timeout(20000);
+
+  const filename = path.join(os.tmpdir(), 'norminette-content-missing', 'virtual.c');
+  const source = 'int\tmain(void)\n{\n\treturn (0);\n}\n';
+
+  before(async function() {
+    if (!(await detectNorminette()).installed) {
+      console.log('  Skipping content tests - norminette not available');
+      this.skip();
+    }
+  });
+
+  it('should attribute errors to the virtual filename', async () => {
+    const result = await checkContent(source, filename, { cache: null });
+
+    assert.equal(result.files_checked, 1);
+    assert.ok(result.errors.some(error => error.error_code === 'INVALID_HEADER'));
+    assert.ok(result.errors.every(error => error.file === filename));
+    assert.equal(fs.existsSync(filename), false);
+  });
+
+  it('should return the fixed source and its diff', async () => {
+    const result = await fixContent(source, filename, { stages: ['structural'], createdAt: new Date(2024, 0, 2, 3, 4, 5) });
+
+    assert.equal(result.changed, true);
+    assert.ok(result.content.startsWith('/* ****'));
+    assert.ok(result.content.endsWith(source));
+    assert.match(result.content, /Created: 2024\/01\/02 03:04:05/);
+    assert.match(result.diff, /^\+\/\* \*{10}/m);
+    assert.ok(result.original_error_count > result.remaining_errors.length);
+    assert.ok(result.fixes.some(fix => fix.fixer === 'HEADER_FIXER' && fix.file === filename));
+    assert.ok(!result.remaining_errors.some(error => error.error_code === 'INVALID_HEADER'));
+    assert.ok(result.remaining_errors.every(error => error.file === filename));
+    assert.equal(fs.existsSync(filename), false);
+  });
+
+  it('should return the report and the fixed source from norminette_fix_content', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMCPServer().connect(serverTransport);
+    const client = new Client({ name: 'content-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const { content } = await client.callTool({
+      name: 'norminette_fix_content',
+      arguments: { content: source, filename: 'virtual.c', stages: ['structural'] }
+    });
+    await client.close();
+
+    assert.equal(content.length, 2);
+    assert.match(content[0].text, /^filename: virtual\.c$/m);
+    assert.match(content[0].text, /^changed: true$/m);
+    assert.match(content[0].text, /HEADER_FIXER/);
+    assert.ok(content[1].text.startsWith('/* ****'));
+    assert.ok(content[1].text.endsWith(source));
+  });
+});
@@ -0,0 +1,59 @@
+import { strict as assert } from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkPath, checkPaths, detectNorminette } from '../dist/index.js';
+
+describe('Checking Several Paths', function() {
+  this.timeout(20000);
+
+  let root;
+
+  before(async function() {
+    if (!(await detectNorminette()).installed) {
+      console.log('  Skipping multi-path tests - norminette not available');
+      this.skip();
+    }
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-paths-'));
+    for (const dir of ['one', 'two']) {
+      fs.mkdirSync(path.join(root, dir));
+      fs.writeFileSync(path.join(root, dir, `${dir}.c`), 'int\tx;\n');
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should check a file reached through several paths once', async () => {
+    const file = path.join(root, 'one', 'one.c');
+    const whole = await checkPath(root, { cache: null });
+    const result = await checkPaths([file, root, path.join(root, 'one')], { cache: null });
+
+    assert.equal(result.files_checked, 2);
+    assert.equal(result.errors.length, whole.errors.length);
+    assert.equal(result.errors.filter(error => error.file === file).length, whole.errors.filter(error => error.file === file).length);
+  });
+
+  it('should report the changed lines of every path', async () => {
+    const git = (...args) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: root, stdio: 'pipe' });
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-q', '-m', 'initial');
+    for (const dir of ['one', 'two']) {
+      fs.appendFileSync(path.join(root, dir, `${dir}.c`), 'int f(void)\n{\n\treturn (0);\n}\n');
+    }
+
+    const result = await checkPaths([path.join(root, 'one'), path.join(root, 'two')], { cache: null, since: 'HEAD' });
+
+    assert.equal(result.files_checked, 2);
+    assert.ok(result.errors.some(error => error.file.endsWith('one.c')));
+    assert.ok(result.errors.some(error => error.file.endsWith('two.c')));
+    // The unchanged first line (and its missing header) is out of scope in both files
+    assert.ok(result.errors.every(error => error.line > 1));
+  });
+});
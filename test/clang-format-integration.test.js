@@ -1,4 +1,7 @@
 import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { 
   checkClangFormatAvailability,
   applyClangFormat,
@@ -9,8 +12,8 @@ import {
 describe('clang-format Integration System', () => {
   
   describe('clang-format Availability', () => {
-    it('should check if clang-format is available', () => {
-      const available = checkClangFormatAvailability();
+    it('should check if clang-format is available', async () => {
+      const available = await checkClangFormatAvailability();
       assert.equal(typeof available, 'boolean');
       console.log('  clang-format available:', available);
     });
@@ -41,10 +44,49 @@ printf("Hello");
 return 0;
 }`;
 
+    it('should keep the style of concurrent runs apart and write nothing to the working directory', async function() {
+      this.timeout(10000);
+      if (!await checkClangFormatAvailability()) {
+        console.log('  Skipping clang-format test - not available');
+        this.skip();
+      }
+
+      const cwd = process.cwd();
+      const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-clang-cwd-'));
+      process.chdir(workDir);
+      try {
+        const [allman, attached] = await Promise.all([
+          applyClangFormat(testCode),
+          applyClangFormat(testCode, { BreakBeforeBraces: 'Attach' })
+        ]);
+        assert.match(allman, /int main\(void\)\n\{/);
+        assert.match(attached, /int main\(void\) \{/);
+        assert.deepEqual(fs.readdirSync(workDir), []);
+      } finally {
+        process.chdir(cwd);
+        fs.rmSync(workDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should stop a run when the signal is aborted', async function() {
+      if (!await checkClangFormatAvailability()) {
+        console.log('  Skipping clang-format test - not available');
+        this.skip();
+      }
+
+      const controller = new AbortController();
+      const running = applyClangFormat(testCode, {}, controller.signal);
+      controller.abort();
+      await assert.rejects(running, /Operation cancelled/);
+      await assert.rejects(applyClangFormat(testCode, {}, controller.signal), /Operation cancelled/);
+      const result = applyClangFormatWithFallback(testCode, {}, controller.signal);
+      await assert.rejects(result, /Operation cancelled/);
+    });
+
     it('should apply clang-format when available', async function() {
       this.timeout(10000); // clang-format may take time
       
-      const available = checkClangFormatAvailability();
+      const available = await checkClangFormatAvailability();
       if (!available) {
         console.log('  Skipping clang-format test - not available');
         this.skip();
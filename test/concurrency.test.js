@@ -0,0 +1,45 @@
+import { strict as assert } from 'assert';
+import { mapConcurrent } from '../dist/index.js';
+
+describe('Concurrency Pool', () => {
+  const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('should keep result order and respect the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapConcurrent([30, 10, 20, 5], 2, async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(ms);
+      running--;
+      return index;
+    });
+
+    assert.deepEqual(results, [0, 1, 2, 3]);
+    assert.equal(peak, 2);
+  });
+
+  it('should stop starting work once cancelled', async () => {
+    const controller = new AbortController();
+    const started = [];
+    await assert.rejects(
+      mapConcurrent([1, 2, 3, 4], 1, async (item) => {
+        started.push(item);
+        if (item === 2) {
+          controller.abort();
+        }
+      }, controller.signal),
+      /Operation cancelled/
+    );
+    assert.deepEqual(started, [1, 2]);
+  });
+
+  it('should rethrow the first failure', async () => {
+    await assert.rejects(
+      mapConcurrent([1, 2], 2, async (item) => {
+        throw new Error(`failed ${item}`);
+      }),
+      /failed 1/
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { validateConfig, loadConfig, norminetteRunOptions, norminetteArgs, matchesGlob, generateClangFormatConfigString } from '../dist/index.js';
+
+describe('Project Configuration', () => {
+
+  describe('validateConfig', () => {
+    it('should accept a complete configuration', () => {
+      const config = validateConfig({
+        header: { login: 'jdoe', email: 'jdoe@student.42.fr' },
+        clang_format: { ColumnLimit: 100 },
+        fixers: { exclude: ['CLANG_FORMAT'], stages: ['structural'] },
+        ignore: ['vendor/'],
+        timeout: 1000,
+        norminette: { flags: ['-o'] }
+      }, 'test.yml');
+      assert.equal(config.header.login, 'jdoe');
+    });
+
+    it('should list every problem', () => {
+      assert.throws(
+        () => validateConfig({ colour: true, timeout: -1, fixers: { include: ['NOPE'] } }, 'test.yml'),
+        (error) => error.message.includes('colour is not a known option') &&
+          error.message.includes('timeout must be a positive number') &&
+          error.message.includes('unknown fixer NOPE')
+      );
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should find the nearest config file upward', () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-config-'));
+      try {
+        fs.mkdirSync(path.join(root, 'src'));
+        fs.writeFileSync(path.join(root, '.norminette-mcp.yml'), 'timeout: 5000\n');
+        const loaded = loadConfig(path.join(root, 'src'));
+        assert.equal(loaded.path, path.join(root, '.norminette-mcp.yml'));
+        assert.equal(loaded.root, root);
+        assert.equal(loaded.config.timeout, 5000);
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('norminette options', () => {
+    it('should reject malformed overrides', () => {
+      assert.throws(
+        () => validateConfig({ norminette: { overrides: [{ rules: 'CheckDefine' }] } }, 'test.yml'),
+        (error) => error.message.includes('norminette.overrides[0].files must be a glob') &&
+          error.message.includes('norminette.overrides[0].rules must be a list of strings')
+      );
+    });
+
+    it('should add the rules of matching overrides', () => {
+      const options = norminetteRunOptions({
+        path: '/project/.norminette-mcp.yml',
+        root: '/project',
+        config: {
+          norminette: {
+            flags: ['-o'],
+            rules: ['CheckDefine'],
+            overrides: [{ files: '*.h', rules: ['CheckForbiddenSourceHeader', 'CheckDefine'] }]
+          }
+        }
+      });
+      assert.deepEqual(norminetteArgs('/project/main.c', options), ['-o', '-R', 'CheckDefine']);
+      assert.deepEqual(
+        norminetteArgs('/project/inc/libft.h', options),
+        ['-o', '-R', 'CheckDefine', '-R', 'CheckForbiddenSourceHeader']
+      );
+      assert.deepEqual(norminetteArgs('/elsewhere/libft.h', options), ['-o', '-R', 'CheckDefine']);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match names at any depth and anchored paths', () => {
+      assert(matchesGlob('src/vendor/lib.c', 'vendor/', false));
+      assert(matchesGlob('a/b/x_generated.c', '**/*_generated.c'));
+      assert(!matchesGlob('src/main.c', '/main.c'));
+      assert(matchesGlob('main.c', '/main.c'));
+    });
+  });
+
+  describe('clang-format overrides', () => {
+    it('should replace generated style options', () => {
+      const style = generateClangFormatConfigString({ ColumnLimit: 100 });
+      assert(style.includes('ColumnLimit: 100'));
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { strict as assert } from 'assert';
+import { expandTabs, renderSnippet, addSourceContext } from '../dist/index.js';
+
+describe('Source Context', () => {
+
+  describe('expandTabs', () => {
+    it('should expand tabs to the next multiple of four columns', () => {
+      assert.equal(expandTabs('\tint\tx;'), '→   int→x;');
+      assert.equal(expandTabs('ab\tc'), 'ab→ c');
+    });
+  });
+
+  describe('renderSnippet', () => {
+    const source = 'int\tmain(void)\n{\n\tint\tx;\n\treturn (0);\n}\n';
+
+    it('should put the caret under the tab-expanded column', () => {
+      assert.equal(renderSnippet(source, 3, 9, 0), [
+        '3 | →   int→x;',
+        '  |         ^'
+      ].join('\n'));
+    });
+
+    it('should clip context at the start and end of the file', () => {
+      const snippet = renderSnippet(source, 1, 1, 2);
+      assert.deepEqual(snippet.split('\n').map(line => line.slice(0, 1)), ['1', ' ', '2', '3']);
+      assert.equal(renderSnippet(source, 5, 1, 3).split('\n').at(-1), '  | ^');
+    });
+
+    it('should return null for lines outside the source', () => {
+      assert.equal(renderSnippet(source, 6, 1, 1), null);
+      assert.equal(renderSnippet(source, 0, 1, 1), null);
+    });
+  });
+
+  describe('addSourceContext', () => {
+    it('should attach snippets from the given source', () => {
+      const result = {
+        status: 'Error',
+        files_checked: 1,
+        errors: [{ file: 'virtual.c', line: 2, column: 1, error_type: 'X', error_code: 'X', description: 'x' }],
+        summary: ''
+      };
+      addSourceContext(result, 0, () => 'int x;\nint  y;\n');
+      assert.equal(result.errors[0].snippet, '2 | int  y;\n  | ^');
+    });
+
+    it('should reject out-of-range context sizes', () => {
+      assert.throws(() => addSourceContext({ errors: [] }, -1), /context_lines must be an integer/);
+      assert.throws(() => addSourceContext({ errors: [] }, 1.5), /context_lines must be an integer/);
+    });
+  });
+});
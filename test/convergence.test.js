@@ -0,0 +1,133 @@
+import { strict as assert } from 'assert';
+import { iterateFixPasses, assertMaxPasses } from '../dist/index.js';
+
+function error(line) {
+  return {
+    file: 'test.c',
+    line,
+    column: 1,
+    error_type: 'SPACE_REPLACE_TAB',
+    error_code: 'SPACE_REPLACE_TAB',
+    description: 'Found space when expecting tab'
+  };
+}
+
+function state(content, errorCount) {
+  return { content, errors: Array.from({ length: errorCount }, (_, index) => error(index + 1)) };
+}
+
+/** A pass function returning the given states in turn */
+function passes(...states) {
+  const calls = [];
+  const runPass = async (current, pass) => {
+    calls.push(pass);
+    return states[pass - 1];
+  };
+  return { runPass, calls };
+}
+
+const targetable = current => current.errors.length;
+
+describe('Fix Convergence', () => {
+
+  describe('iterateFixPasses', () => {
+    it('should stop once no targetable error is left', async () => {
+      const { runPass, calls } = passes(state('b', 1), state('c', 0));
+      const outcome = await iterateFixPasses(state('a', 2), runPass, { maxPasses: 5, targetable });
+
+      assert.equal(outcome.stopReason, 'converged');
+      assert.equal(outcome.state.content, 'c');
+      assert.deepEqual(calls, [1, 2]);
+      assert.deepEqual(outcome.attempts.map(attempt => attempt.accepted), [true, true]);
+    });
+
+    it('should not run a pass when the initial state has nothing to fix', async () => {
+      const { runPass, calls } = passes();
+      const outcome = await iterateFixPasses(state('a', 0), runPass, { maxPasses: 5, targetable });
+
+      assert.equal(outcome.stopReason, 'converged');
+      assert.deepEqual(calls, []);
+    });
+
+    it('should stop after maxPasses with the last accepted state', async () => {
+      const { runPass, calls } = passes(state('b', 4), state('c', 3), state('d', 2));
+      const outcome = await iterateFixPasses(state('a', 5), runPass, { maxPasses: 2, targetable });
+
+      assert.equal(outcome.stopReason, 'max_passes');
+      assert.equal(outcome.state.content, 'c');
+      assert.equal(outcome.state.errors.length, 3);
+      assert.deepEqual(calls, [1, 2]);
+    });
+
+    it('should stop when a pass changes nothing', async () => {
+      const { runPass } = passes(state('a', 2));
+      const outcome = await iterateFixPasses(state('a', 2), runPass, { maxPasses: 5, targetable });
+
+      assert.equal(outcome.stopReason, 'no_changes');
+      assert.deepEqual(outcome.attempts, []);
+    });
+
+    it('should reject a pass that adds targetable errors', async () => {
+      const { runPass } = passes(state('b', 1), state('c', 3));
+      const outcome = await iterateFixPasses(state('a', 2), runPass, { maxPasses: 5, targetable });
+
+      assert.equal(outcome.stopReason, 'no_progress');
+      assert.equal(outcome.state.content, 'b');
+      assert.deepEqual(outcome.attempts.map(attempt => attempt.accepted), [true, false]);
+    });
+
+    it('should accept a pass that keeps the count level, then stop', async () => {
+      const { runPass, calls } = passes(state('b', 2), state('c', 1));
+      const outcome = await iterateFixPasses(state('a', 2), runPass, { maxPasses: 5, targetable });
+
+      assert.equal(outcome.stopReason, 'no_progress');
+      assert.equal(outcome.state.content, 'b');
+      assert.deepEqual(calls, [1]);
+      assert.equal(outcome.attempts[0].accepted, true);
+    });
+
+    it('should detect content returning to an earlier state', async () => {
+      const { runPass } = passes(state('b', 2), state('a', 1));
+      const outcome = await iterateFixPasses(state('a', 3), runPass, { maxPasses: 5, targetable });
+
+      assert.equal(outcome.stopReason, 'cycle');
+      assert.equal(outcome.state.content, 'b');
+      assert.deepEqual(outcome.attempts.map(attempt => [attempt.pass, attempt.accepted]), [[1, true], [2, false]]);
+    });
+
+    it('should measure progress with the targetable count only', async () => {
+      const { runPass } = passes(state('b', 4));
+      const outcome = await iterateFixPasses(state('a', 2), runPass, {
+        maxPasses: 1,
+        targetable: current => current.errors.filter(entry => entry.line === 1).length
+      });
+
+      assert.equal(outcome.stopReason, 'no_progress');
+      assert.equal(outcome.state.content, 'b');
+    });
+
+    it('should throw when cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const { runPass } = passes(state('b', 1));
+      await assert.rejects(
+        iterateFixPasses(state('a', 2), runPass, { maxPasses: 5, targetable, signal: controller.signal }),
+        /Operation cancelled/
+      );
+    });
+  });
+
+  describe('assertMaxPasses', () => {
+    it('should accept positive integers and undefined', () => {
+      assertMaxPasses(undefined);
+      assertMaxPasses(1);
+      assertMaxPasses(10);
+    });
+
+    it('should reject anything else', () => {
+      for (const value of [0, -1, 1.5, NaN, Infinity, '3', null]) {
+        assert.throws(() => assertMaxPasses(value), /max_passes must be a positive integer/);
+      }
+    });
+  });
+});
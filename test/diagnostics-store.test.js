@@ -0,0 +1,65 @@
+import { strict as assert } from 'assert';
+import { DiagnosticsStore, summarizeResult } from '../dist/index.js';
+
+const error = (file, line, code) => ({ file, line, column: 1, error_type: code, error_code: code, description: code });
+
+function result(errors, extra = {}) {
+  return {
+    status: errors.length > 0 ? 'Error' : 'OK',
+    files_checked: 1,
+    summary: summarizeResult({ files_checked: 1, errors }),
+    errors,
+    ...extra
+  };
+}
+
+describe('Diagnostics Store', () => {
+  let store;
+  let notified;
+
+  beforeEach(() => {
+    store = new DiagnosticsStore();
+    notified = [];
+    store.subscribe(files => notified.push(...files));
+  });
+
+  it('should notify only when a file\'s diagnostics change', () => {
+    assert.equal(store.record('/repo/a.c', result([error('/repo/a.c', 1, 'INVALID_HEADER')])), true);
+    assert.equal(store.record('/repo/a.c', result([error('/repo/a.c', 1, 'INVALID_HEADER')])), false);
+    assert.equal(store.record('/repo/a.c', result([])), true);
+    assert.deepEqual(notified, ['/repo/a.c', '/repo/a.c']);
+    assert.equal(store.get('/repo/a.c').status, 'OK');
+  });
+
+  it('should ignore timed out checks', () => {
+    assert.equal(store.record('/repo/slow.c', result([], { timed_out: ['/repo/slow.c'] })), false);
+    assert.equal(store.size, 0);
+    assert.deepEqual(notified, []);
+  });
+
+  it('should keep its own copy of the errors', () => {
+    const checked = result([error('/repo/a.c', 2, 'SPACE_REPLACE_TAB')]);
+    store.record('/repo/a.c', checked);
+    checked.errors[0].snippet = '2 | x';
+    assert.equal(store.get('/repo/a.c').errors[0].snippet, undefined);
+  });
+
+  it('should summarize every stored file and stop notifying after unsubscribing', () => {
+    store.record('/repo/b.c', result([error('/repo/b.c', 1, 'INVALID_HEADER'), error('/repo/b.c', 3, 'SPACE_REPLACE_TAB')]));
+    store.record('/repo/a.c', result([]));
+    assert.deepEqual(store.list().map(entry => entry.file), ['/repo/a.c', '/repo/b.c']);
+
+    const summary = store.summarize();
+    assert.equal(summary.files_checked, 2);
+    assert.equal(summary.files_with_errors, 1);
+    assert.equal(summary.errors, 2);
+    assert.equal(store.summarize(entry => entry.file === '/repo/a.c').errors, 0);
+
+    const other = [];
+    const unsubscribe = store.subscribe(files => other.push(...files));
+    unsubscribe();
+    store.delete('/repo/b.c');
+    assert.deepEqual(other, []);
+    assert.equal(store.size, 1);
+  });
+});
@@ -0,0 +1,110 @@
+import { strict as assert } from 'assert';
+import { diffLines, createUnifiedDiff, restrictChanges, remapLineSet, parseUnifiedDiffRanges } from '../dist/index.js';
+
+describe('Unified Diff Generation', () => {
+
+  describe('diffLines', () => {
+    it('should report equal, deleted and inserted lines in order', () => {
+      const ops = diffLines('a\nb\nc\n', 'a\nx\nc\n');
+      const summary = ops.map(op => `${op.type}:${op.line.trim()}`);
+      assert.deepEqual(summary, ['equal:a', 'delete:b', 'insert:x', 'equal:c']);
+    });
+
+    it('should track old and new line indexes', () => {
+      const ops = diffLines('a\nb\n', 'header\na\nb\n');
+      assert.equal(ops[0].type, 'insert');
+      assert.equal(ops[0].newIndex, 0);
+      assert.equal(ops[1].type, 'equal');
+      assert.equal(ops[1].oldIndex, 0);
+      assert.equal(ops[1].newIndex, 1);
+    });
+  });
+
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string for identical content', () => {
+      assert.equal(createUnifiedDiff('int x;\n', 'int x;\n', 'test.c'), '');
+    });
+
+    it('should render a single hunk with context', () => {
+      const before = 'int main(void)\n{\n    int x;\n    return (0);\n}\n';
+      const after = 'int\tmain(void)\n{\n\tint\tx;\n\treturn (0);\n}\n';
+      const diff = createUnifiedDiff(before, after, 'test.c');
+
+      assert.equal(diff, [
+        '--- test.c',
+        '+++ test.c',
+        '@@ -1,5 +1,5 @@',
+        '-int main(void)',
+        '+int\tmain(void)',
+        ' {',
+        '-    int x;',
+        '-    return (0);',
+        '+\tint\tx;',
+        '+\treturn (0);',
+        ' }',
+        ''
+      ].join('\n'));
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+      const after = before.replace('line 2\n', 'LINE 2\n').replace('line 19\n', 'LINE 19\n');
+      const diff = createUnifiedDiff(before, after, 'a/test.c', 'b/test.c');
+
+      const hunkHeaders = diff.split('\n').filter(line => line.startsWith('@@'));
+      assert.deepEqual(hunkHeaders, ['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+    });
+
+    it('should mark a missing newline at end of file', () => {
+      const diff = createUnifiedDiff('int x;', 'int x;\n', 'test.c');
+      assert(diff.includes('-int x;\n\\ No newline at end of file\n+int x;\n'));
+    });
+  });
+
+  describe('restrictChanges', () => {
+    it('should keep only changes on allowed lines', () => {
+      const before = 'int a;\nint b;\nint c;\n';
+      const after = 'int\ta;\nint\tb;\nint\tc;\n';
+      assert.equal(restrictChanges(before, after, new Set([2])), 'int a;\nint\tb;\nint c;\n');
+    });
+
+    it('should keep insertions next to allowed lines', () => {
+      const before = 'a\nb\n';
+      const after = 'header\na\nb\n';
+      assert.equal(restrictChanges(before, after, new Set([1])), after);
+      assert.equal(restrictChanges(before, after, new Set([2])), before);
+    });
+  });
+
+  describe('remapLineSet', () => {
+    it('should shift lines and include inserted ones', () => {
+      const lines = remapLineSet(new Set([1]), 'a\nb\n', 'x\na\nb\n');
+      assert.deepEqual([...lines].sort(), [1, 2]);
+    });
+  });
+
+  describe('parseUnifiedDiffRanges', () => {
+    it('should collect new-side ranges per file', () => {
+      const output = [
+        'diff --git a/src/main.c b/src/main.c',
+        '--- a/src/main.c',
+        '+++ b/src/main.c',
+        '@@ -3 +3,2 @@ int main(void)',
+        '@@ -10,2 +11 @@',
+        '@@ -20,3 +20,0 @@',
+        'diff --git a/old.c b/old.c',
+        '--- a/old.c',
+        '+++ /dev/null',
+        '@@ -1,3 +0,0 @@'
+      ].join('\n');
+      const changes = parseUnifiedDiffRanges(output, '/repo');
+
+      assert.deepEqual([...changes.keys()], ['/repo/src/main.c']);
+      assert.deepEqual(changes.get('/repo/src/main.c'), [
+        { start: 3, end: 4 },
+        { start: 11, end: 11 },
+        { start: 20, end: 21 }
+      ]);
+    });
+  });
+});
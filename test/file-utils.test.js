@@ -0,0 +1,95 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectCFiles, parseIgnoreFile, findIgnoringRule } from '../dist/index.js';
+
+describe('C File Collection', () => {
+  let root;
+
+  const write = (relativePath, content = '') => {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+  const relativeFiles = (collection) => collection.files.map(file => path.relative(root, file)).sort();
+  const reasonFor = (collection, relativePath) =>
+    collection.skipped.find(entry => path.relative(root, entry.path) === relativePath)?.reason;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-files-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should skip default excludes and non-C files', () => {
+    write('main.c');
+    write('notes.txt');
+    write('node_modules/dep/x.c');
+    write('.git/hooks/y.c');
+
+    const collection = collectCFiles(root);
+    assert.deepEqual(relativeFiles(collection), ['main.c']);
+    assert.match(reasonFor(collection, 'node_modules'), /excluded by default/);
+  });
+
+  it('should honor .gitignore, .normignore and negations', () => {
+    write('.gitignore', 'build/\n*_gen.c\n!keep_gen.c\n');
+    write('libft/.normignore', '*.c\n');
+    write('build/out.c');
+    write('a_gen.c');
+    write('keep_gen.c');
+    write('libft/ft_strlen.c');
+    write('libft/libft.h');
+
+    const collection = collectCFiles(root);
+    assert.deepEqual(relativeFiles(collection), ['keep_gen.c', 'libft/libft.h']);
+    assert.equal(reasonFor(collection, 'build'), 'ignored by .gitignore (build/)');
+    assert.equal(reasonFor(collection, 'libft/ft_strlen.c'), 'ignored by libft/.normignore (*.c)');
+  });
+
+  it('should allow ignore files to be disabled', () => {
+    write('.gitignore', '*.c\n');
+    write('main.c');
+    assert.deepEqual(relativeFiles(collectCFiles(root, { gitignore: false })), ['main.c']);
+  });
+
+  it('should apply ignore globs relative to the root', () => {
+    write('src/main.c');
+    write('vendor/lib.c');
+    const collection = collectCFiles(path.join(root), { ignore: ['vendor/'] });
+    assert.deepEqual(relativeFiles(collection), ['src/main.c']);
+    assert.equal(reasonFor(collection, 'vendor'), 'matches ignore glob vendor/');
+  });
+
+  it('should detect symlink cycles and duplicates', () => {
+    write('src/main.c');
+    fs.symlinkSync(root, path.join(root, 'src', 'loop'));
+    fs.symlinkSync(path.join(root, 'src', 'main.c'), path.join(root, 'alias.c'));
+    fs.symlinkSync(path.join(root, 'missing.c'), path.join(root, 'broken.c'));
+
+    const collection = collectCFiles(root);
+    assert.equal(collection.files.length, 1);
+    assert.match(reasonFor(collection, 'src/loop'), /symlink cycle/);
+    assert.equal(reasonFor(collection, 'broken.c'), 'broken symlink');
+    assert(collection.skipped.some(entry => entry.reason.startsWith('same file as')));
+  });
+
+  it('should return an explicitly named file', () => {
+    write('.gitignore', '*.c\n');
+    write('main.c');
+    assert.deepEqual(collectCFiles(path.join(root, 'main.c')).files, [path.join(root, 'main.c')]);
+  });
+
+  describe('ignore rules', () => {
+    it('should let the last matching rule decide', () => {
+      const rules = parseIgnoreFile('# comment\n*.c\n!main.c\n\\#odd.c\n', '/repo', '.gitignore');
+      assert.equal(rules.length, 3);
+      assert.equal(findIgnoringRule(rules, '/repo/src/util.c', false).pattern, '*.c');
+      assert.equal(findIgnoringRule(rules, '/repo/main.c', false), null);
+      assert.equal(findIgnoringRule(rules, '/elsewhere/util.c', false), null);
+    });
+  });
+});
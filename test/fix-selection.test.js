@@ -0,0 +1,39 @@
+import { strict as assert } from 'assert';
+import { resolveFixSelection, getAvailableFixers, CLANG_FORMAT_FIXER } from '../dist/index.js';
+
+function error(code) {
+  return { file: 'test.c', line: 1, column: 1, error_type: code, error_code: code, description: code };
+}
+
+describe('Fix Selection', () => {
+
+  it('should enable every fixer by default', () => {
+    const selection = resolveFixSelection();
+    assert.equal(selection.runClangFormat, true);
+    assert.deepEqual(selection.structuralFixers.map(fixer => fixer.name), ['HEADER_FIXER']);
+    assert.deepEqual(selection.formattingRules.map(rule => rule.name), ['SPACE_REPLACE_TAB', 'SPACE_BEFORE_FUNC']);
+    assert(getAvailableFixers().includes(CLANG_FORMAT_FIXER));
+  });
+
+  it('should restrict stages and fixers', () => {
+    const selection = resolveFixSelection({
+      stages: ['structural', 'token-formatter'],
+      includeFixers: ['HEADER_FIXER', 'SPACE_REPLACE_TAB']
+    });
+    assert.equal(selection.runClangFormat, false);
+    assert.deepEqual(selection.structuralFixers.map(fixer => fixer.name), ['HEADER_FIXER']);
+    assert.deepEqual(selection.formattingRules.map(rule => rule.name), ['SPACE_REPLACE_TAB']);
+  });
+
+  it('should filter errors by code', () => {
+    const selection = resolveFixSelection({ includeCodes: ['INVALID_HEADER', 'SPACE_REPLACE_TAB'], excludeCodes: ['SPACE_REPLACE_TAB'] });
+    assert.equal(selection.isErrorSelected(error('INVALID_HEADER')), true);
+    assert.equal(selection.isErrorSelected(error('SPACE_REPLACE_TAB')), false);
+    assert.equal(selection.isErrorSelected(error('TOO_MANY_LINES')), false);
+  });
+
+  it('should reject unknown fixers and stages', () => {
+    assert.throws(() => resolveFixSelection({ excludeFixers: ['NOT_A_FIXER'] }), /Unknown fixer: NOT_A_FIXER/);
+    assert.throws(() => resolveFixSelection({ stages: ['lint'] }), /Unknown fix stage: lint/);
+  });
+});
@@ -0,0 +1,42 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fixNorminetteErrors, detectNorminette } from '../dist/index.js';
+
+describe('Fix Pipeline', function() {
+  this.timeout(20000);
+
+  let root;
+
+  before(async function() {
+    if (!(await detectNorminette()).installed) {
+      console.log('  Skipping fix pipeline tests - norminette not available');
+      this.skip();
+    }
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-fix-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should report files norminette cannot tokenize instead of dropping them', async () => {
+    const broken = path.join(root, 'broken.c');
+    const source = 'int main(void)\n{\n\treturn (`0);\n}\n';
+    fs.writeFileSync(broken, source);
+
+    for (const dryRun of [false, true]) {
+      const result = await fixNorminetteErrors(root, { dryRun });
+
+      assert.equal(result.fixes_applied.length, 0);
+      assert.equal(result.failures.length, 1);
+      assert.equal(result.failures[0].file, broken);
+      assert.equal(result.failures[0].kind, 'unrecognized_token');
+      assert.equal(fs.readFileSync(broken, 'utf-8'), source);
+    }
+  });
+});
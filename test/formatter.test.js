@@ -139,6 +139,28 @@ describe('Norminette Formatter System', () => {
       assert.equal(result, expectedLines.join('\n'));
       console.log('  Multiple errors fixed successfully');
     });
+
+    it('should report which rule handled each error', () => {
+      const formatter = new NorminetteFormatter();
+      for (const rule of defaultFormattingRules) {
+        formatter.addRule(rule);
+      }
+
+      const error = {
+        file: 'test.c',
+        line: 1,
+        column: 4,
+        error_type: 'SPACE_BEFORE_FUNC',
+        error_code: 'SPACE_BEFORE_FUNC',
+        description: 'Space before function name'
+      };
+
+      const report = formatter.formatWithReport('int main(void)', [error]);
+      assert.equal(report.content, 'int\tmain(void)');
+      assert.equal(report.applied.length, 1);
+      assert.equal(report.applied[0].rule, 'SPACE_BEFORE_FUNC');
+      assert.equal(report.applied[0].error, error);
+    });
   });
 
   describe('Rule Management', () => {
@@ -47,6 +47,11 @@ describe('42 Header Generator', () => {
       expect(lines[3]).to.include('this_is_a_very_long_filename_tha');
       expect(lines[3]).to.have.lengthOf(80); // Must be exactly 80 chars
     });
+
+    it('should use an explicit creation date instead of the file time', async () => {
+      const header = await generate42Header('virtual.c', {}, new Date(2024, 0, 2, 3, 4, 5));
+      expect(header.split('\n')[7]).to.include('Created: 2024/01/02 03:04:05');
+    });
   });
   
   describe('has42Header', () => {
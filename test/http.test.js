@@ -0,0 +1,164 @@
+import { strict as assert } from 'assert';
+import * as http from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { createMCPServer, parseServerArgs, startHttpServer } from '../dist/index.js';
+
+const authorization = token => ({ requestInit: { headers: { Authorization: `Bearer ${token}` } } });
+
+/** Status of a POST to /mcp with the given headers; http.request, since fetch cannot forge Host */
+function postStatus(url, headers) {
+  return new Promise((resolve, reject) => {
+    const req = http.request(`${url}/mcp`, { method: 'POST', headers: { Authorization: 'Bearer secret', ...headers } }, res => {
+      res.resume();
+      resolve(res.statusCode);
+    });
+    req.on('error', reject);
+    req.end('{}');
+  });
+}
+
+async function connect(transport) {
+  const client = new Client({ name: 'http-test', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+describe('HTTP Transport', function() {
+  this.timeout(10000);
+
+  let handle;
+
+  beforeEach(async () => {
+    handle = await startHttpServer(() => createMCPServer(), { port: 0, token: 'secret' });
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it('should serve the tools over streamable HTTP', async () => {
+    const client = await connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), authorization('secret')));
+    const { tools } = await client.listTools();
+    assert.ok(tools.some(tool => tool.name === 'norminette_check'));
+
+    const { contents } = await client.readResource({ uri: 'norminette://project/summary' });
+    assert.match(contents[0].text, /files_checked/);
+    await client.close();
+  });
+
+  it('should serve the legacy SSE transport', async () => {
+    const client = await connect(new SSEClientTransport(new URL(`${handle.url}/sse`), {
+      ...authorization('secret'),
+      eventSourceInit: {
+        fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, Authorization: 'Bearer secret' } })
+      }
+    }));
+    const { prompts } = await client.listPrompts();
+    assert.ok(prompts.some(prompt => prompt.name === 'explain_report'));
+    await client.close();
+  });
+
+  it('should forget a session once the client deleted it', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), authorization('secret'));
+    const client = await connect(transport);
+    const sessionId = transport.sessionId;
+    await transport.terminateSession();
+    await client.close();
+
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      signal: AbortSignal.timeout(3000)
+    });
+    assert.equal(response.status, 404);
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const response = await fetch(`${handle.url}/mcp`, { method: 'POST', body: '{}' });
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+
+    const wrong = await fetch(`${handle.url}/mcp`, { method: 'POST', body: '{}', headers: { Authorization: 'Bearer guess' } });
+    assert.equal(wrong.status, 401);
+  });
+
+  it('should reject requests addressed to another host or from another origin', async () => {
+    const port = new URL(handle.url).port;
+    assert.equal(await postStatus(handle.url, { Host: `evil.example:${port}` }), 403);
+    assert.equal(await postStatus(handle.url, { Origin: 'http://evil.example' }), 403);
+    assert.equal(await postStatus(handle.url, { Origin: 'null' }), 403);
+    assert.equal(await postStatus(handle.url, { Host: `localhost:${port}`, Origin: `http://localhost:${port}` }), 400);
+    assert.equal(await postStatus(handle.url, { Host: `[::1]:${port}` }), 400);
+  });
+
+  it('should refuse to listen on a non-loopback host without a token', async () => {
+    await assert.rejects(startHttpServer(() => createMCPServer(), { port: 0, host: '0.0.0.0' }), /Refusing to listen on 0\.0\.0\.0 without a token/);
+  });
+
+  it('should refuse to serve without a token unless allowed roots confine it', async () => {
+    const saved = process.env.NORMINETTE_MCP_ALLOWED_ROOTS;
+    delete process.env.NORMINETTE_MCP_ALLOWED_ROOTS;
+    try {
+      await assert.rejects(startHttpServer(() => createMCPServer(), { port: 0 }), /without a token or allowed roots/);
+
+      process.env.NORMINETTE_MCP_ALLOWED_ROOTS = process.cwd();
+      const confined = await startHttpServer(() => createMCPServer(), { port: 0 });
+      await confined.close();
+    } finally {
+      if (saved === undefined) {
+        delete process.env.NORMINETTE_MCP_ALLOWED_ROOTS;
+      } else {
+        process.env.NORMINETTE_MCP_ALLOWED_ROOTS = saved;
+      }
+    }
+  });
+
+  it('should refuse to listen on a wildcard address without allowed hosts', async () => {
+    await assert.rejects(startHttpServer(() => createMCPServer(), { port: 0, host: '0.0.0.0', token: 'secret' }), /Listening on 0\.0\.0\.0 needs --allowed-host/);
+  });
+
+  it('should accept requests addressed to an allowed host', async () => {
+    const remote = await startHttpServer(() => createMCPServer(), { port: 0, host: '0.0.0.0', token: 'secret', allowedHosts: ['192.0.2.2', 'Lab-Machine.local'] });
+    const port = new URL(remote.url).port;
+    const local = `http://127.0.0.1:${port}`;
+    try {
+      assert.equal(await postStatus(local, { Host: `192.0.2.2:${port}` }), 400);
+      assert.equal(await postStatus(local, { Host: `lab-machine.local:${port}`, Origin: `http://lab-machine.local:${port}` }), 400);
+      assert.equal(await postStatus(local, { Host: `192.0.2.3:${port}` }), 403);
+    } finally {
+      await remote.close();
+    }
+  });
+
+  it('should reject requests without a session that do not initialize one', async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    assert.equal(response.status, 400);
+  });
+});
+
+describe('parseServerArgs', () => {
+  it('should parse the HTTP options and fall back to the token variable', () => {
+    assert.deepEqual(parseServerArgs(['--http', '--port', '8080', '--host', '0.0.0.0'], { NORMINETTE_MCP_TOKEN: 't0ken' }), {
+      http: true, port: 8080, host: '0.0.0.0', token: 't0ken'
+    });
+    assert.deepEqual(parseServerArgs(['--http', '--allowed-host', 'a.local', '--allowed-host', '192.0.2.2'], {}), {
+      http: true, allowedHosts: ['a.local', '192.0.2.2']
+    });
+    assert.deepEqual(parseServerArgs([], {}), {});
+  });
+
+  it('should reject invalid values and HTTP options without --http', () => {
+    assert.throws(() => parseServerArgs(['--http', '--port', 'x'], {}), /Invalid port: x/);
+    assert.throws(() => parseServerArgs(['--http', '--token'], {}), /Missing value for --token/);
+    assert.throws(() => parseServerArgs(['--port', '8080'], {}), /require --http/);
+    assert.throws(() => parseServerArgs(['--allowed-host', 'a.local'], {}), /require --http/);
+    assert.throws(() => parseServerArgs(['--http', '--verbose'], {}), /Unknown argument: --verbose/);
+  });
+});
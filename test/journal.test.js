@@ -0,0 +1,72 @@
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createFixSession,
+  recordFileChange,
+  listFixSessions,
+  undoFixSession
+} from '../dist/index.js';
+
+describe('Fix Session Journal', () => {
+  let workDir;
+  let previousJournalDir;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-journal-'));
+    previousJournalDir = process.env.NORMINETTE_MCP_JOURNAL_DIR;
+    process.env.NORMINETTE_MCP_JOURNAL_DIR = path.join(workDir, 'journal');
+  });
+
+  afterEach(() => {
+    if (previousJournalDir === undefined) {
+      delete process.env.NORMINETTE_MCP_JOURNAL_DIR;
+    } else {
+      process.env.NORMINETTE_MCP_JOURNAL_DIR = previousJournalDir;
+    }
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function simulateFix(file, original, fixed) {
+    fs.writeFileSync(file, original);
+    const session = createFixSession(workDir);
+    recordFileChange(session, file, original, fixed);
+    fs.writeFileSync(file, fixed);
+    return session;
+  }
+
+  it('should not persist sessions that changed nothing', () => {
+    createFixSession(workDir);
+    expect(listFixSessions()).to.have.lengthOf(0);
+  });
+
+  it('should restore the most recent session', () => {
+    const file = path.join(workDir, 'main.c');
+    const session = simulateFix(file, 'int main(void) {}\n', 'int\tmain(void)\n{\n}\n');
+
+    const result = undoFixSession();
+    expect(result.session_id).to.equal(session.id);
+    expect(result.restored_files).to.deep.equal([file]);
+    expect(fs.readFileSync(file, 'utf-8')).to.equal('int main(void) {}\n');
+  });
+
+  it('should refuse to undo when a file was edited after the fix', () => {
+    const file = path.join(workDir, 'main.c');
+    const session = simulateFix(file, 'int x;\n', 'int\tx;\n');
+    fs.writeFileSync(file, 'int\tx;\nint\ty;\n');
+
+    expect(() => undoFixSession(session.id)).to.throw(/files changed since the fix/);
+    expect(fs.readFileSync(file, 'utf-8')).to.equal('int\tx;\nint\ty;\n');
+  });
+
+  it('should not undo the same session twice', () => {
+    const file = path.join(workDir, 'main.c');
+    const session = simulateFix(file, 'int x;\n', 'int\tx;\n');
+
+    undoFixSession(session.id);
+    expect(() => undoFixSession(session.id)).to.throw(/already undone/);
+    expect(() => undoFixSession()).to.throw(/No fix session to undo/);
+  });
+});
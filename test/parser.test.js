@@ -0,0 +1,108 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseNorminetteOutput } from '../dist/index.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'assets', 'norminette-output');
+const fixture = (name) => fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8');
+
+describe('Norminette Output Parser', () => {
+
+  it('should attribute identical error lines to their own files', () => {
+    const parsed = parseNorminetteOutput(fixture('multiple-files.txt'), { exitCode: 1 });
+
+    assert.equal(parsed.files_checked, 3);
+    assert.deepEqual(parsed.errors.map(error => `${error.file}:${error.error_code}:${error.line}`), [
+      'src/main.c:INVALID_HEADER:1',
+      'src/main.c:SPACE_BEFORE_FUNC:6',
+      'src/other.c:INVALID_HEADER:1',
+      'src/other.c:TOO_MANY_LINES:42'
+    ]);
+    assert.equal(parsed.errors[1].column, 4);
+    assert.equal(parsed.errors[1].description, 'space before function name');
+    assert.deepEqual(parsed.failures, []);
+  });
+
+  it('should keep notices apart from errors', () => {
+    const parsed = parseNorminetteOutput(fixture('notices.txt'), { exitCode: 1 });
+
+    assert.deepEqual(parsed.errors.map(error => error.error_code), ['GLOBAL_VAR_NAMING']);
+    assert.equal(parsed.notices.length, 1);
+    assert.equal(parsed.notices[0].error_code, 'GLOBAL_VAR_DETECTED');
+    assert.equal(parsed.notices[0].file, 'ft_globals.c');
+  });
+
+  it('should report unrecognized tokens as file-level failures', () => {
+    const parsed = parseNorminetteOutput(fixture('unrecognized-token.txt'), { exitCode: 1 });
+
+    assert.equal(parsed.files_checked, 2);
+    assert.deepEqual(parsed.failures, [{
+      file: 'broken.c',
+      kind: 'unrecognized_token',
+      message: 'Unrecognized token line 4, col 10',
+      line: 4,
+      column: 10
+    }]);
+  });
+
+  it('should report parser failures with their position', () => {
+    const [failure] = parseNorminetteOutput(fixture('parse-error.txt'), { exitCode: 1 }).failures;
+
+    assert.equal(failure.kind, 'parse_error');
+    assert.equal(failure.file, 'parse.c');
+    assert.equal(failure.line, 12);
+    assert.equal(failure.column, 5);
+  });
+
+  it('should not split file names on colons', () => {
+    const parsed = parseNorminetteOutput(fixture('colon-in-path.txt'), { exitCode: 1 });
+    assert.equal(parsed.errors[0].file, 'projects:old/main.c');
+  });
+
+  it('should report rejected files', () => {
+    const parsed = parseNorminetteOutput(fixture('invalid-file.txt'), { targetPath: 'notes.txt', exitCode: 1 });
+
+    assert.equal(parsed.files_checked, 0);
+    assert.deepEqual(parsed.failures, [{
+      file: 'notes.txt',
+      kind: 'file_error',
+      message: 'notes.txt is not valid C or C header file'
+    }]);
+  });
+
+  it('should report a Python traceback as a crash', () => {
+    const parsed = parseNorminetteOutput(fixture('crash.txt'), { exitCode: 1 });
+    const crash = parsed.failures.find(failure => failure.kind === 'crash');
+
+    assert.equal(parsed.errors.length, 1);
+    assert(crash);
+    assert.match(crash.message, /^UnicodeDecodeError/);
+    assert.match(crash.traceback, /^Traceback/);
+  });
+
+  it('should find tracebacks on stderr', () => {
+    const parsed = parseNorminetteOutput('', { stderr: fixture('crash.txt'), exitCode: 1 });
+    assert(parsed.failures.some(failure => failure.kind === 'crash'));
+  });
+
+  it('should treat a failing run without recognizable output as a crash', () => {
+    const parsed = parseNorminetteOutput('', { stderr: 'ModuleNotFoundError: No module named norminette\n', exitCode: 1 });
+    assert.deepEqual(parsed.failures.map(failure => failure.kind), ['crash']);
+    assert.match(parsed.failures[0].message, /ModuleNotFoundError/);
+  });
+
+  it('should surface unrecognized lines without failing', () => {
+    const parsed = parseNorminetteOutput('Deprecation warning: something\nmain.c: OK!\n', { exitCode: 0 });
+    assert.equal(parsed.files_checked, 1);
+    assert.deepEqual(parsed.failures, [{ file: null, kind: 'unrecognized_output', message: 'Deprecation warning: something' }]);
+  });
+
+  it('should collect unrecognized lines as debug output in debug mode', () => {
+    const output = 'main.c: Error!\n<TYPE> <SPACE> <IDENTIFIER=main>\nError: SPACE_BEFORE_FUNC    (line:   1, col:   4):\tspace before function name\n';
+    const parsed = parseNorminetteOutput(output, { exitCode: 1, debug: true });
+    assert.equal(parsed.errors.length, 1);
+    assert.deepEqual(parsed.failures, []);
+    assert.deepEqual(parsed.debug, ['<TYPE> <SPACE> <IDENTIFIER=main>']);
+  });
+});
@@ -0,0 +1,109 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { checkPath, createMCPServer, fixNorminetteErrors, detectNorminette } from '../dist/index.js';
+
+const source = 'int main(void)\n{\n\treturn (0);\n}\n';
+
+describe('Progress and Interrupted Runs', function() {
+  this.timeout(20000);
+
+  let root;
+
+  before(async function() {
+    if (!(await detectNorminette()).installed) {
+      console.log('  Skipping progress tests - norminette not available');
+      this.skip();
+    }
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-progress-'));
+    for (const name of ['a.c', 'b.c', 'c.c']) {
+      fs.writeFileSync(path.join(root, name), source);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should report each checked file', async () => {
+    const updates = [];
+    await checkPath(root, { cache: null, concurrency: 1, onProgress: update => updates.push(update) });
+    assert.deepEqual(updates.map(update => [update.progress, update.total]), [[1, 3], [2, 3], [3, 3]]);
+    assert.match(updates[0].message, /^Checked .*a\.c \(1\/3\)$/);
+  });
+
+  it('should count checks, fixes and the final check in one increasing sequence', async () => {
+    const updates = [];
+    const result = await fixNorminetteErrors(root, { onProgress: update => updates.push(update) });
+    assert.equal(result.status, 'completed');
+    assert.deepEqual(updates.map(update => update.progress), [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.ok(updates.every(update => update.total === 9));
+    assert.ok(updates.some(update => /^Fixed .*a\.c \(\d\/3\): \d+ errors fixed, 0 left; \d+ errors fixed so far, undo with session \S+$/.test(update.message)));
+  });
+
+  it('should report the files finished before a cancellation', async () => {
+    const controller = new AbortController();
+    const result = await fixNorminetteErrors(root, {
+      // Leaves an error in the fixed file
+      excludeCodes: ['INVALID_HEADER'],
+      signal: controller.signal,
+      config: { path: null, root, config: { concurrency: 1 } },
+      onProgress: update => {
+        if (update.message.startsWith('Fixed')) {
+          controller.abort();
+        }
+      }
+    });
+
+    assert.equal(result.status, 'cancelled');
+    assert.equal(result.error, 'Operation cancelled');
+    assert.equal(result.fixes_applied.length, 1);
+    assert.equal(result.unfinished.length, 2);
+    assert.ok(result.session_id);
+
+    const fixed = result.fixes_applied[0].file;
+    const codesOf = file => result.remaining_errors.filter(error => error.file === file).map(error => error.error_code);
+    assert.deepEqual(codesOf(fixed), ['INVALID_HEADER']);
+    for (const file of result.unfinished) {
+      assert.ok(codesOf(file).includes('SPACE_BEFORE_FUNC'));
+    }
+    assert.equal(result.final_error_count, result.remaining_errors.length);
+  });
+
+  it('should tell an MCP client that cancels a fix what the finished files hold', async () => {
+    fs.writeFileSync(path.join(root, '.norminette-mcp.yml'), 'concurrency: 1\n');
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMCPServer().connect(serverTransport);
+    const client = new Client({ name: 'progress-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const controller = new AbortController();
+    const messages = [];
+    // The server drops the response to a cancelled request: the progress messages are all the client gets
+    await assert.rejects(client.callTool({ name: 'norminette_fix', arguments: { path: root, exclude_codes: ['INVALID_HEADER'] } }, undefined, {
+      signal: controller.signal,
+      onprogress: ({ message }) => {
+        messages.push(message);
+        if (message.startsWith('Fixed')) {
+          controller.abort();
+        }
+      }
+    }));
+
+    const [, file, left, sessionId] = messages.find(message => message.startsWith('Fixed'))
+      .match(/^Fixed (\S+) \(1\/3\): \d+ errors fixed, (\d+) left; .*, undo with session (\S+)$/);
+    assert.equal(left, '1');
+    assert.notEqual(fs.readFileSync(file, 'utf-8'), source);
+
+    const undo = await client.callTool({ name: 'norminette_undo', arguments: { session_id: sessionId } });
+    assert.equal(undo.isError, undefined);
+    assert.equal(fs.readFileSync(file, 'utf-8'), source);
+    await client.close();
+  });
+});
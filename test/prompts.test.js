@@ -0,0 +1,147 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getPrompt, findFunctions, functionsToSplit } from '../dist/index.js';
+
+const source = [
+  '#include <unistd.h>',
+  '',
+  'typedef struct s_pair',
+  '{',
+  '\tint\ta;',
+  '}\tt_pair;',
+  '',
+  'static int\tadd(int a,',
+  '\t\tint b)',
+  '{',
+  '\treturn (a + b);',
+  '}',
+  'int\tmain(void)',
+  '{',
+  '\tint\tx;',
+  '',
+  '\tx = add(1, 2);',
+  '\treturn (x);',
+  '}',
+  ''
+].join('\n');
+
+const error = (file, line, code) => ({ file, line, column: 1, error_type: code, error_code: code, description: code });
+
+describe('MCP Prompts', () => {
+
+  describe('findFunctions', () => {
+    it('should find functions by their braces in column 0, with multi-line prototypes', () => {
+      const functions = findFunctions(source);
+
+      assert.deepEqual(functions.map(({ name, start, end, bodyLines }) => ({ name, start, end, bodyLines })), [
+        { name: 'add', start: 8, end: 12, bodyLines: 1 },
+        { name: 'main', start: 13, end: 19, bodyLines: 4 }
+      ]);
+      assert.ok(functions[0].source.startsWith('static int\tadd(int a,\n\t\tint b)\n{'));
+      assert.ok(functions[1].source.endsWith('\treturn (x);\n}'));
+    });
+
+    it('should skip braces without a function before them and unterminated bodies', () => {
+      assert.deepEqual(findFunctions('struct s\n{\n\tint a;\n};\nint\tf(void)\n{\n\treturn (0);\n').map(found => found.name), []);
+    });
+  });
+
+  describe('functionsToSplit', () => {
+    it('should pick the functions norminette reports as too long', () => {
+      const errors = [error('a.c', 19, 'TOO_MANY_LINES'), error('a.c', 11, 'SPACE_REPLACE_TAB')];
+      assert.deepEqual(functionsToSplit(source, errors).map(found => found.name), ['main']);
+    });
+
+    it('should pick a named function regardless of the errors', () => {
+      assert.deepEqual(functionsToSplit(source, [error('a.c', 19, 'TOO_MANY_LINES')], 'add').map(found => found.name), ['add']);
+      assert.deepEqual(functionsToSplit(source, [], 'missing'), []);
+      assert.deepEqual(functionsToSplit(source, []), []);
+    });
+  });
+
+  describe('explain_report', () => {
+    let root;
+    let outside;
+
+    beforeEach(() => {
+      root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-prompts-')));
+      outside = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-prompts-outside-')));
+      fs.writeFileSync(path.join(root, 'main.c'), source);
+      fs.writeFileSync(path.join(outside, 'secret.c'), 'int\tsecret_value;\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+      fs.rmSync(outside, { recursive: true, force: true });
+    });
+
+    it('should explain raw norminette output without running norminette', async () => {
+      const output = [
+        `${path.join(root, 'main.c')}: Error!`,
+        'Error: SPACE_REPLACE_TAB    (line:  15, col:   5):\tFound space when expecting tab',
+        'Error: TOO_MANY_LINES       (line:  19, col:   1):\tFunction has more than 25 lines',
+        `${path.join(root, 'broken.c')}: Error!`,
+        'Error: Unrecognized token line 4, col 10',
+        ''
+      ].join('\n');
+      const prompt = await getPrompt('explain_report', { output });
+      const text = prompt.messages[0].content.text;
+
+      assert.equal(prompt.description, 'Explain this norminette report');
+      assert.match(text, /Summary: Checked 2 files, found 2 errors/);
+      assert.match(text, /- SPACE_REPLACE_TAB: 1 errors, .*fixable by norminette_fix \(CLANG_FORMAT, SPACE_REPLACE_TAB\)/);
+      assert.match(text, /- TOO_MANY_LINES: 1 errors, .*not fixable automatically/);
+      assert.match(text, /broken\.c: Unrecognized token line 4, col 10/);
+      assert.match(text, /15 \| →   int→x;/);
+    });
+
+    it('should only show source from inside the allowed roots', async () => {
+      const output = [
+        `${path.join(root, 'main.c')}: Error!`,
+        'Error: SPACE_REPLACE_TAB    (line:  15, col:   5):\tFound space when expecting tab',
+        `${path.join(outside, 'secret.c')}: Error!`,
+        'Error: GLOBAL_VAR_NAMING    (line:   1, col:   5):\tGlobal variable must start with g_',
+        ''
+      ].join('\n');
+      const prompt = await getPrompt('explain_report', { output }, { allowedRoots: [root] });
+      const text = prompt.messages[0].content.text;
+
+      assert.match(text, /int→x;/);
+      assert.match(text, /secret\.c:1:5 GLOBAL_VAR_NAMING/);
+      assert.ok(!text.includes('secret_value'));
+    });
+
+    it('should require a path or output', async () => {
+      await assert.rejects(getPrompt('explain_report', {}), /Argument path or output is required/);
+    });
+  });
+
+  describe('file arguments', () => {
+    let root;
+
+    beforeEach(() => {
+      root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-prompts-')));
+      fs.mkdirSync(path.join(root, 'dir.c'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    for (const name of ['fix_remaining_errors', 'split_function']) {
+      it(`should only accept C files for ${name}`, async () => {
+        await assert.rejects(getPrompt(name, {}), /Argument file is required/);
+        await assert.rejects(getPrompt(name, { file: root }), /Not a C source file/);
+        await assert.rejects(getPrompt(name, { file: path.join(root, 'dir.c') }), /Not a C source file/);
+        await assert.rejects(getPrompt(name, { file: path.join(root, 'notes.txt') }), /Not a C source file/);
+        await assert.rejects(getPrompt(name, { file: path.join(root, 'main.c') }, { allowedRoots: [path.join(root, 'dir.c')] }), /outside the allowed roots/);
+      });
+    }
+
+    it('should reject unknown prompts', async () => {
+      await assert.rejects(getPrompt('make_coffee'), /Unknown prompt: make_coffee/);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { strict as assert } from 'assert';
+import { queryResult, groupResult, ungroupErrors, summarizeResult } from '../dist/index.js';
+
+const error = (file, line, code) => ({ file, line, column: 1, error_type: code, error_code: code, description: code });
+
+const errors = [
+  error('/repo/src/b.c', 3, 'SPACE_REPLACE_TAB'),
+  error('/repo/src/a.c', 1, 'INVALID_HEADER'),
+  error('/repo/src/b.c', 1, 'INVALID_HEADER'),
+  error('/repo/lib/c.c', 2, 'SPACE_REPLACE_TAB'),
+  error('/repo/src/a.c', 5, 'SPACE_REPLACE_TAB')
+];
+const result = {
+  status: 'Error',
+  files_checked: 4,
+  errors,
+  summary: summarizeResult({ files_checked: 4, errors })
+};
+
+describe('Result Queries', () => {
+
+  it('should summarize errors by code and file', () => {
+    assert.equal(result.summary.message, 'Checked 4 files, found 5 errors');
+    assert.equal(result.summary.files_with_errors, 3);
+    assert.deepEqual(result.summary.by_code, { SPACE_REPLACE_TAB: 3, INVALID_HEADER: 2 });
+    assert.deepEqual(result.summary.worst_files, [
+      { file: '/repo/src/a.c', errors: 2 },
+      { file: '/repo/src/b.c', errors: 2 },
+      { file: '/repo/lib/c.c', errors: 1 }
+    ]);
+    assert.equal(result.summary.by_file, undefined);
+  });
+
+  it('should count the files that could not be checked, not their failures', () => {
+    const failure = (file, kind) => ({ file, kind, message: kind });
+    const summary = summarizeResult({
+      files_checked: 2,
+      errors: [],
+      failures: [failure('/repo/a.c', 'unrecognized_token'), failure('/repo/a.c', 'parse_error'), failure('/repo/b.c', 'parse_error')]
+    });
+    assert.match(summary.message, /, 2 files could not be checked$/);
+    assert.equal(summary.failures, 3);
+  });
+
+  it('should filter by code and by file glob relative to the root', () => {
+    const queried = queryResult(result, { codes: ['SPACE_REPLACE_TAB'], files: ['src/**'], root: '/repo', statistics: true });
+    assert.deepEqual(queried.errors.map(entry => `${entry.file}:${entry.line}`), ['/repo/src/a.c:5', '/repo/src/b.c:3']);
+    assert.equal(queried.summary.errors, 2);
+    assert.deepEqual(queried.summary.by_file, { '/repo/src/a.c': 1, '/repo/src/b.c': 1 });
+    assert.equal(queried.page, undefined);
+  });
+
+  it('should page through every error exactly once, duplicates included', () => {
+    const withDuplicates = { ...result, errors: [...errors, error('/repo/src/a.c', 5, 'SPACE_REPLACE_TAB')] };
+    const seen = [];
+    let cursor;
+    do {
+      const page = queryResult(withDuplicates, { orderBy: 'code', limit: 2, cursor });
+      assert.equal(page.page.total, 6);
+      assert.equal(page.summary.errors, 6);
+      seen.push(...page.errors.map(entry => `${entry.error_code} ${entry.file}:${entry.line}`));
+      cursor = page.page.next_cursor;
+    } while (cursor);
+
+    assert.deepEqual(seen, [
+      'INVALID_HEADER /repo/src/a.c:1',
+      'INVALID_HEADER /repo/src/b.c:1',
+      'SPACE_REPLACE_TAB /repo/lib/c.c:2',
+      'SPACE_REPLACE_TAB /repo/src/a.c:5',
+      'SPACE_REPLACE_TAB /repo/src/a.c:5',
+      'SPACE_REPLACE_TAB /repo/src/b.c:3'
+    ]);
+  });
+
+  it('should continue after the cursor when earlier errors were fixed', () => {
+    const first = queryResult(result, { limit: 2 });
+    assert.deepEqual(first.errors.map(entry => entry.file), ['/repo/lib/c.c', '/repo/src/a.c']);
+
+    const fixed = { ...result, errors: errors.filter(entry => entry.file !== '/repo/lib/c.c') };
+    const second = queryResult(fixed, { limit: 2, cursor: first.page.next_cursor });
+    assert.deepEqual(second.errors.map(entry => `${entry.file}:${entry.line}`), ['/repo/src/a.c:5', '/repo/src/b.c:1']);
+  });
+
+  it('should reject cursors of a different order and bad limits', () => {
+    const { page } = queryResult(result, { limit: 1 });
+    assert.throws(() => queryResult(result, { orderBy: 'code', cursor: page.next_cursor }), /ordered by file, not code/);
+    assert.throws(() => queryResult(result, { cursor: 'not-a-cursor' }), /Invalid cursor/);
+    assert.throws(() => queryResult(result, { limit: -1 }), /limit must be a non-negative integer/);
+  });
+
+  it('should group errors and ungroup them again', () => {
+    const grouped = groupResult(queryResult(result, { orderBy: 'code' }), 'code');
+    assert.deepEqual(grouped.groups.map(group => [group.key, group.count]), [['INVALID_HEADER', 2], ['SPACE_REPLACE_TAB', 3]]);
+    assert.equal(grouped.groups[0].errors[0].error_code, undefined);
+    assert.equal(grouped.errors, undefined);
+    assert.deepEqual(new Set(ungroupErrors(grouped)), new Set(queryResult(result, { orderBy: 'code' }).errors));
+
+    const byFile = groupResult(result, 'file');
+    assert.deepEqual(byFile.groups.map(group => group.key), ['/repo/src/b.c', '/repo/src/a.c', '/repo/lib/c.c']);
+    assert.equal(byFile.groups[0].errors[0].file, undefined);
+  });
+});
@@ -0,0 +1,106 @@
+import { strict as assert } from 'assert';
+import { formatResult, getRuleMetadata } from '../dist/index.js';
+
+const result = {
+  status: 'Error',
+  files_checked: 2,
+  errors: [
+    { file: '/repo/src/main.c', line: 1, column: 1, error_type: 'INVALID_HEADER', error_code: 'INVALID_HEADER', description: 'Missing or invalid 42 header' },
+    { file: '/repo/src/main.c', line: 4, column: 8, error_type: 'SPACE_REPLACE_TAB', error_code: 'SPACE_REPLACE_TAB', description: 'Found space when expecting tab' }
+  ],
+  notices: [
+    { file: '/repo/src/util.c', line: 2, column: 1, error_type: 'GLOBAL_VAR_DETECTED', error_code: 'GLOBAL_VAR_DETECTED', description: 'Global variable present in file. Make sure it is a reasonable choice.' }
+  ],
+  failures: [
+    { file: '/repo/src/bad.c', kind: 'unrecognized_token', message: 'Unrecognized token line 3, col 1', line: 3, column: 1 }
+  ],
+  summary: 'Checked 2 files, found 2 errors'
+};
+
+describe('Report Formats', () => {
+
+  it('should render the whole result as JSON', () => {
+    assert.deepEqual(JSON.parse(formatResult(result, 'json')), result);
+  });
+
+  it('should render SARIF 2.1.0 with rule metadata and relative locations', () => {
+    const sarif = JSON.parse(formatResult(result, 'sarif', { root: '/repo', toolVersion: '3.3.55' }));
+    const run = sarif.runs[0];
+
+    assert.equal(sarif.version, '2.1.0');
+    assert.equal(run.tool.driver.version, '3.3.55');
+    assert.deepEqual(run.tool.driver.rules.map(rule => rule.id), [
+      'INVALID_HEADER', 'SPACE_REPLACE_TAB', 'GLOBAL_VAR_DETECTED', 'norminette/unrecognized_token'
+    ]);
+    assert.deepEqual(run.tool.driver.rules[0].properties.fixers, ['HEADER_FIXER']);
+    assert.deepEqual(run.results.map(entry => entry.level), ['error', 'error', 'note', 'error']);
+    assert.deepEqual(run.results[1].locations[0].physicalLocation, {
+      artifactLocation: { uri: 'src/main.c', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 4, startColumn: 8 }
+    });
+    assert.equal(run.results[1].ruleIndex, 1);
+  });
+
+  it('should render a JUnit test case per error and failure', () => {
+    const xml = formatResult(result, 'junit');
+    assert.match(xml, /<testsuite name="norminette" tests="3" failures="2" errors="1">/);
+    assert.match(xml, /<failure type="SPACE_REPLACE_TAB" message="Found space when expecting tab">/);
+    assert.match(xml, /<error type="unrecognized_token"/);
+  });
+
+  it('should render a passing JUnit test case when there are no errors', () => {
+    const xml = formatResult({ status: 'OK', files_checked: 1, errors: [], summary: '' }, 'junit');
+    assert.match(xml, /tests="1" failures="0" errors="0"/);
+  });
+
+  it('should escape XML in Checkstyle output', () => {
+    const xml = formatResult({
+      ...result,
+      errors: [{ ...result.errors[0], description: 'a < b & "c"' }],
+      notices: [],
+      failures: []
+    }, 'checkstyle');
+    assert.match(xml, /<file name="\/repo\/src\/main.c">/);
+    assert.match(xml, /message="a &lt; b &amp; &quot;c&quot;" source="norminette.INVALID_HEADER"/);
+  });
+
+  it('should render failures of the whole run under a norminette file in Checkstyle output', () => {
+    const xml = formatResult({
+      status: 'Crashed',
+      files_checked: 0,
+      errors: [],
+      failures: [{ file: null, kind: 'crash', message: 'norminette crashed: KeyError' }],
+      summary: ''
+    }, 'checkstyle');
+    assert.match(xml, /<file name="norminette">\n    <error line="1" severity="error" message="norminette crashed: KeyError" source="norminette.crash"\/>/);
+  });
+
+  it('should render GitHub annotations with escaped properties', () => {
+    const output = formatResult({ ...result, errors: [{ ...result.errors[0], file: '/repo/a,b.c' }], failures: [] }, 'github', { root: '/repo' });
+    assert.deepEqual(output.trim().split('\n'), [
+      '::error file=a%2Cb.c,line=1,col=1,title=norminette INVALID_HEADER::Missing or invalid 42 header',
+      '::notice file=src/util.c,line=2,col=1,title=norminette GLOBAL_VAR_DETECTED::Global variable present in file. Make sure it is a reasonable choice.'
+    ]);
+  });
+
+  it('should report the remaining errors of a fix result', () => {
+    const output = formatResult({
+      original_errors: 3,
+      fixes_applied: [],
+      remaining_errors: [result.errors[1]],
+      final_error_count: 1,
+      status: 'completed'
+    }, 'checkstyle');
+    assert.equal((output.match(/<error /g) ?? []).length, 1);
+  });
+
+  it('should reject unknown formats', () => {
+    assert.throws(() => formatResult(result, 'xml'), /Unknown format: xml/);
+  });
+
+  it('should fall back to the reported description for unknown codes', () => {
+    assert.deepEqual(getRuleMetadata('NEW_RULE', 'Something new'), {
+      code: 'NEW_RULE', description: 'Something new', category: 'other', fixers: []
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DiagnosticsStore,
+  summarizeResult,
+  readResource,
+  listResources,
+  fileResourceUri,
+  resourceFilePath,
+  isKnownResourceUri,
+  PROJECT_SUMMARY_URI
+} from '../dist/index.js';
+
+const error = (file, line, code) => ({ file, line, column: 1, error_type: code, error_code: code, description: code });
+
+function result(errors) {
+  return {
+    status: errors.length > 0 ? 'Error' : 'OK',
+    files_checked: 1,
+    summary: summarizeResult({ files_checked: 1, errors }),
+    errors
+  };
+}
+
+describe('MCP Resources', () => {
+  let root;
+  let outside;
+  let store;
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-resources-')));
+    outside = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-outside-')));
+    store = new DiagnosticsStore();
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  describe('file URIs', () => {
+    it('should round-trip paths with characters that need encoding', () => {
+      const file = path.join(root, 'my dir', '100%#ok.c');
+      const uri = fileResourceUri(file);
+
+      assert.ok(uri.startsWith('norminette://file/'));
+      assert.ok(!uri.includes(' ') && !uri.includes('#'));
+      assert.equal(resourceFilePath(uri), file);
+    });
+
+    it('should resolve .. segments', () => {
+      assert.equal(resourceFilePath('norminette://file/home/me/../../etc/passwd.c'), '/etc/passwd.c');
+      assert.equal(resourceFilePath(fileResourceUri('/repo/src/../main.c')), '/repo/main.c');
+    });
+
+    it('should return null for other URIs', () => {
+      assert.equal(resourceFilePath(PROJECT_SUMMARY_URI), null);
+      assert.equal(resourceFilePath('norminette://files/a.c'), null);
+      assert.equal(resourceFilePath('file:///repo/a.c'), null);
+    });
+
+    it('should reject file URIs that do not decode to a path', () => {
+      assert.throws(() => resourceFilePath('norminette://file/repo%2Fa.c'), /Invalid resource URI/);
+    });
+
+    it('should know which URIs can be subscribed to', () => {
+      assert.equal(isKnownResourceUri(PROJECT_SUMMARY_URI), true);
+      assert.equal(isKnownResourceUri('norminette://file/repo/a.c'), true);
+      assert.equal(isKnownResourceUri('norminette://project/other'), false);
+      assert.equal(isKnownResourceUri('https://example.com/a.c'), false);
+    });
+  });
+
+  describe('readResource', () => {
+    it('should serve recorded diagnostics without running norminette', async () => {
+      const file = path.join(root, 'main.c');
+      store.record(file, result([error(file, 1, 'INVALID_HEADER')]));
+
+      const { contents } = await readResource(fileResourceUri(file), { diagnostics: store });
+      assert.equal(contents[0].mimeType, 'application/yaml');
+      assert.match(contents[0].text, /error_code: INVALID_HEADER/);
+    });
+
+    it('should reject files outside the allowed roots, also through ..', async () => {
+      const file = path.join(outside, 'secret.c');
+      store.record(file, result([]));
+
+      await assert.rejects(readResource(fileResourceUri(file), { diagnostics: store, allowedRoots: [root] }), /outside the allowed roots/);
+      const sneaky = `${fileResourceUri(root)}/../${path.basename(outside)}/secret.c`;
+      await assert.rejects(readResource(sneaky, { diagnostics: store, allowedRoots: [root] }), /outside the allowed roots/);
+    });
+
+    it('should only summarize and list files inside the allowed roots', async () => {
+      store.record(path.join(root, 'a.c'), result([error(path.join(root, 'a.c'), 1, 'INVALID_HEADER')]));
+      store.record(path.join(outside, 'b.c'), result([error(path.join(outside, 'b.c'), 1, 'INVALID_HEADER')]));
+      const context = { diagnostics: store, allowedRoots: [root] };
+
+      const { contents } = await readResource(PROJECT_SUMMARY_URI, context);
+      assert.match(contents[0].text, /files_checked: 1/);
+      assert.ok(!contents[0].text.includes(outside));
+      assert.deepEqual(listResources(context).map(resource => resource.uri), [PROJECT_SUMMARY_URI, fileResourceUri(path.join(root, 'a.c'))]);
+    });
+
+    it('should reject unknown URIs and files that cannot be checked', async () => {
+      await assert.rejects(readResource('norminette://project/other', { diagnostics: store }), /Unknown resource/);
+      await assert.rejects(readResource(fileResourceUri(path.join(root, 'missing.c')), { diagnostics: store }), /Path does not exist/);
+      fs.writeFileSync(path.join(root, 'notes.txt'), 'not C');
+      await assert.rejects(readResource(fileResourceUri(path.join(root, 'notes.txt')), { diagnostics: store }), /Not a C source file/);
+    });
+  });
+});
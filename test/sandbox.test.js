@@ -0,0 +1,52 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isPathAllowed, assertPathAllowed, resolveRealPath, collectCFiles } from '../dist/index.js';
+
+describe('Path Sandboxing', () => {
+  let base;
+  let workspace;
+  let outside;
+
+  beforeEach(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-sandbox-')));
+    workspace = path.join(base, 'workspace');
+    outside = path.join(base, 'outside');
+    fs.mkdirSync(workspace);
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(workspace, 'main.c'), '');
+    fs.writeFileSync(path.join(outside, 'secret.c'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  it('should allow everything without roots', () => {
+    assert(isPathAllowed('/etc/passwd', null));
+  });
+
+  it('should allow paths inside a root and reject .. escapes', () => {
+    assert(isPathAllowed(workspace, [workspace]));
+    assert(isPathAllowed(path.join(workspace, 'main.c'), [workspace]));
+    assert(!isPathAllowed(path.join(workspace, '..', 'outside', 'secret.c'), [workspace]));
+    assert(!isPathAllowed(`${workspace}-other`, [workspace]));
+    assert.throws(() => assertPathAllowed(outside, [workspace]), /outside the allowed roots/);
+  });
+
+  it('should reject symlinks pointing outside the roots', () => {
+    fs.symlinkSync(outside, path.join(workspace, 'link'));
+    assert(!isPathAllowed(path.join(workspace, 'link', 'secret.c'), [workspace]));
+    assert(!isPathAllowed(path.join(workspace, 'link', 'new.c'), [workspace]));
+
+    const collection = collectCFiles(workspace, { allowedRoots: [workspace] });
+    assert.deepEqual(collection.files, [path.join(workspace, 'main.c')]);
+    assert.match(collection.skipped[0].reason, /outside the allowed roots/);
+  });
+
+  it('should resolve the existing part of a missing path', () => {
+    fs.symlinkSync(outside, path.join(workspace, 'link'));
+    assert.equal(resolveRealPath(path.join(workspace, 'link', 'a', 'b.c')), path.join(outside, 'a', 'b.c'));
+  });
+});
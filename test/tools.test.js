@@ -0,0 +1,106 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMCPServer, startWatching, stopWatching, getWatchers } from '../dist/index.js';
+import yaml from 'js-yaml';
+
+/** A client connected to a fresh server, offering the given directories as its roots */
+async function connect(roots = null) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMCPServer().connect(serverTransport);
+  const client = new Client({ name: 'tools-test', version: '1.0.0' }, { capabilities: roots ? { roots: {} } : {} });
+  if (roots) {
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({
+      roots: roots.map(root => ({ uri: pathToFileURL(root).href }))
+    }));
+  }
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe('MCP Tools', () => {
+  let client;
+
+  beforeEach(async () => {
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  async function callError(name, args) {
+    const result = await client.callTool({ name, arguments: args });
+    assert.equal(result.isError, true);
+    return result.content[0].text;
+  }
+
+  it('should reject rules that are not a list of strings', async () => {
+    for (const rules of ['CheckDefine', [1], { CheckDefine: true }]) {
+      assert.match(await callError('norminette_check_content', { content: 'int\tx;\n', filename: 'a.c', rules }), /rules must be a list of strings/);
+      assert.match(await callError('norminette_check', { path: '.', rules }), /rules must be a list of strings/);
+    }
+  });
+
+  it('should reject check filters that are not a list of strings', async () => {
+    for (const name of ['codes', 'files']) {
+      for (const value of ['INVALID_HEADER', [1]]) {
+        assert.match(await callError('norminette_check', { path: '.', [name]: value }), new RegExp(`${name} must be a list of strings`));
+      }
+    }
+  });
+
+  it('should reject fix filters that are not a list of strings', async () => {
+    for (const name of ['include_codes', 'exclude_codes', 'include_fixers', 'exclude_fixers']) {
+      assert.match(await callError('norminette_fix', { path: '.', [name]: 'INVALID_HEADER' }), new RegExp(`${name} must be a list of strings`));
+      assert.match(await callError('norminette_fix_content', { content: 'int\tx;\n', filename: 'a.c', [name]: [true] }), new RegExp(`${name} must be a list of strings`));
+    }
+  });
+
+  describe('norminette_watch', () => {
+    let mine;
+    let theirs;
+
+    beforeEach(async () => {
+      mine = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-watch-mine-')));
+      theirs = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-watch-theirs-')));
+      // Empty directories: starting needs no norminette run
+      await startWatching(theirs);
+    });
+
+    afterEach(() => {
+      stopWatching(mine);
+      stopWatching(theirs);
+      fs.rmSync(mine, { recursive: true, force: true });
+      fs.rmSync(theirs, { recursive: true, force: true });
+    });
+
+    it('should hide and protect watches outside the client\'s roots', async () => {
+      const confined = await connect([mine]);
+      await confined.callTool({ name: 'norminette_watch', arguments: { action: 'start', path: mine } });
+
+      const status = await confined.callTool({ name: 'norminette_watch', arguments: { action: 'status' } });
+      assert.deepEqual(yaml.load(status.content[0].text).watches.map(watch => watch.path), [mine]);
+
+      const stop = await confined.callTool({ name: 'norminette_watch', arguments: { action: 'stop', path: theirs } });
+      assert.equal(stop.isError, true);
+      assert.match(stop.content[0].text, /outside the allowed roots/);
+
+      await confined.callTool({ name: 'norminette_watch', arguments: { action: 'stop' } });
+      assert.deepEqual(getWatchers().map(watcher => watcher.root).filter(root => root === mine || root === theirs), [theirs]);
+      await confined.close();
+    });
+
+    it('should reject a debounce_ms that is not a non-negative integer', async () => {
+      for (const debounce_ms of [-1, 1.5, 'soon']) {
+        assert.match(await callError('norminette_watch', { action: 'start', path: mine, debounce_ms }), /debounce_ms must be a non-negative integer/);
+      }
+      assert.equal(getWatchers().some(watcher => watcher.root === mine), false);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { strict as assert } from 'assert';
+import { parseNorminetteVersion, parseNorminetteOptions } from '../dist/index.js';
+
+describe('Norminette Version Detection', () => {
+
+  describe('parseNorminetteVersion', () => {
+    it('should extract the version number', () => {
+      assert.equal(parseNorminetteVersion('norminette 3.3.55\n'), '3.3.55');
+    });
+
+    it('should return null for unrecognized output', () => {
+      assert.equal(parseNorminetteVersion('command not found'), null);
+    });
+  });
+
+  describe('parseNorminetteOptions', () => {
+    it('should collect short and long options from the help text', () => {
+      const help = [
+        'usage: norminette [-h] [-d] [-o] [-v] [--cfile CFILE] [--hfile HFILE]',
+        '                  [--filename FILENAME] [--use-gitignore] [-R R] [file ...]',
+        '',
+        'options:',
+        '  -h, --help           show this help message and exit',
+        '  --cfile CFILE        Store C file content directly instead of filename'
+      ].join('\n');
+      const options = parseNorminetteOptions(help);
+
+      for (const option of ['-h', '--help', '-R', '--cfile', '--hfile', '--filename', '--use-gitignore']) {
+        assert(options.includes(option), `missing ${option}`);
+      }
+      assert(!options.includes('CFILE'));
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DirectoryWatcher, DiagnosticsStore, detectNorminette } from '../dist/index.js';
+
+/** Wait until the condition holds, polling */
+async function until(condition, timeout = 5000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      assert.fail('Timed out waiting for the watcher');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('Directory Watcher', function() {
+  this.timeout(20000);
+
+  let root;
+  let store;
+  let watcher;
+
+  before(async function() {
+    if (!(await detectNorminette()).installed) {
+      console.log('  Skipping watch tests - norminette not available');
+      this.skip();
+    }
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-watch-'));
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'src', 'main.c'), 'int\tmain(void)\n{\n\treturn (0);\n}\n');
+    store = new DiagnosticsStore();
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should check every file once on start', async () => {
+    watcher = new DirectoryWatcher(root, { diagnostics: store, cache: null, debounce: 50 });
+    await watcher.start();
+
+    const status = watcher.status();
+    assert.equal(status.state, 'watching');
+    assert.equal(status.files, 1);
+    assert.equal(status.checks, 1);
+    assert.ok(store.get(path.join(root, 'src', 'main.c')));
+  });
+
+  it('should re-check only changed files and forget deleted ones', async () => {
+    const other = path.join(root, 'src', 'other.c');
+    fs.writeFileSync(other, 'int\tx;\n');
+    watcher = new DirectoryWatcher(root, { diagnostics: store, cache: null, debounce: 50 });
+    await watcher.start();
+
+    const notified = [];
+    store.subscribe(files => notified.push(...files));
+    const checkedAt = store.get(path.join(root, 'src', 'main.c')).checked_at;
+
+    fs.appendFileSync(other, 'int\ty;\n');
+    fs.writeFileSync(path.join(root, 'notes.txt'), 'not C');
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await watcher.idle();
+    assert.equal(watcher.status().checks, 2);
+    assert.equal(store.get(path.join(root, 'src', 'main.c')).checked_at, checkedAt);
+
+    fs.rmSync(other);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await watcher.idle();
+    assert.equal(store.get(other), undefined);
+    assert.equal(watcher.status().files, 1);
+    assert.ok(notified.includes(other));
+  });
+
+  it('should stop watching', async () => {
+    watcher = new DirectoryWatcher(root, { diagnostics: store, cache: null, debounce: 50 });
+    await watcher.start();
+    watcher.stop();
+
+    fs.writeFileSync(path.join(root, 'src', 'new.c'), 'int\tz;\n');
+    await new Promise(resolve => setTimeout(resolve, 200));
+    assert.equal(watcher.status().state, 'stopped');
+    assert.equal(store.get(path.join(root, 'src', 'new.c')), undefined);
+  });
+});
+
+// Needs no norminette: the directory starts without C files and changes stay pending
+describe('Directory Watcher change detection', function() {
+  this.timeout(10000);
+
+  let root;
+  let watcher;
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'norminette-watch-')));
+    fs.mkdirSync(path.join(root, 'src'));
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should notice changes in existing and new subdirectories', async () => {
+    watcher = new DirectoryWatcher(root, { diagnostics: new DiagnosticsStore(), debounce: 60000 });
+    await watcher.start();
+
+    fs.writeFileSync(path.join(root, 'src', 'main.c'), 'int\tx;\n');
+    await until(() => watcher.status().pending === 1);
+
+    fs.mkdirSync(path.join(root, 'lib', 'deep'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'lib', 'deep', 'util.c'), 'int\ty;\n');
+    await until(() => watcher.status().pending === 2);
+  });
+});